@@ -0,0 +1,64 @@
+// BM25F scoring over indexed messages (https://en.wikipedia.org/wiki/Okapi_BM25)
+
+// Field order is shared by postings and document lengths in the index
+export const FIELDS = ['content', 'files', 'tools', 'errors', 'results', 'thinking'] as const;
+export type FieldName = (typeof FIELDS)[number];
+
+// A file path or error signature hit says more than a passing mention in prose
+export const FIELD_WEIGHTS: Record<FieldName, number> = {
+  content: 1.0,
+  files: 2.0,
+  tools: 1.5,
+  errors: 2.5,
+  results: 0.8, // Tool output is long and noisy - useful, but weaker than what was said
+  thinking: 0.7,
+};
+
+// Fields only scored when a query asks for them
+export const OPT_IN_FIELDS: ReadonlySet<FieldName> = new Set<FieldName>(['thinking']);
+
+// Short list-like fields barely vary in length, so they get little length normalisation
+const FIELD_LENGTH_NORMALISATION: Record<FieldName, number> = {
+  content: 0.75,
+  files: 0.3,
+  tools: 0.3,
+  errors: 0.5,
+  results: 0.75,
+  thinking: 0.75,
+};
+
+const K1 = 1.2;
+
+export interface CorpusStats {
+  documentCount: number;
+  totalLengths: number[]; // Summed token count per field, in FIELDS order
+}
+
+export function inverseDocumentFrequency(documentCount: number, documentFrequency: number): number {
+  // The +1 keeps IDF positive even for terms present in most messages
+  return Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+}
+
+// Score a single query term for one document from its per-field frequencies and lengths
+export function bm25fTermScore(
+  idf: number,
+  termFrequencies: ArrayLike<number>,
+  fieldLengths: ArrayLike<number>,
+  stats: CorpusStats,
+  excludedFields?: ReadonlySet<FieldName>
+): number {
+  let weightedFrequency = 0;
+
+  FIELDS.forEach((field, i) => {
+    const frequency = termFrequencies[i];
+    if (!frequency || excludedFields?.has(field)) return;
+
+    const averageLength = stats.documentCount > 0 ? stats.totalLengths[i] / stats.documentCount : 0;
+    const b = FIELD_LENGTH_NORMALISATION[field];
+    const lengthRatio = averageLength > 0 ? fieldLengths[i] / averageLength : 1;
+
+    weightedFrequency += (FIELD_WEIGHTS[field] * frequency) / (1 - b + b * lengthRatio);
+  });
+
+  return (idf * weightedFrequency) / (K1 + weightedFrequency);
+}
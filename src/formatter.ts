@@ -7,7 +7,35 @@ import {
   ToolPattern,
   PlanResult,
   PlanSearchResult,
+  TranscriptLookup,
+  MessageContext,
+  UsageGroup,
+  UsageReport,
+  SessionListing,
+  RecentSession,
+  SearchConversationsOutput,
+  SimilarQueriesOutput,
+  FileContextOutput,
+  ErrorSolutionsOutput,
+  ToolPatternsOutput,
+  RecentSessionsOutput,
+  CompactSummaryOutput,
+  SessionTranscriptOutput,
+  MessageContextOutput,
+  UsageStatsOutput,
+  PlanSearchOutput,
+  MatchOutput,
+  ToolResultOutput,
+  BriefMessageOutput,
+  UsageGroupOutput,
+  SearchHitOutput,
+  BudgetOutput,
+  OutputFormat,
+  MessageContextInfo,
+  TranscriptMessageOutput,
 } from './types.js';
+import { DEFAULT_MAX_TOKENS, estimateTokens, packToBudget } from './token-budget.js';
+import { NextCursor } from './pagination.js';
 
 // Robot faces for each MCP tool operation - these are the signature of Claude Historian!
 const robots = {
@@ -19,8 +47,33 @@ const robots = {
   sessions: '[⌐○_○]', // list_recent_sessions
   summary: '[⌐◉_◉]', // extract_compact_summary
   plans: '[⌐▣_▣]', // search_plans
+  transcript: '[⌐▤_▤]', // get_session_transcript
+  context: '[⌐▥_▥]', // get_message_context
+  usage: '[⌐$_$]', // get_usage_stats
 };
 
+export interface FormattedOutput<T> {
+  text: string;
+  structured: T;
+}
+
+// How a result is printed - its format and markdown body - and, when it has a max_tokens budget,
+// which of its fields are the ranked results and how to get whatever doesn't fit (given how many
+// results did)
+interface RenderOptions<T> {
+  format?: OutputFormat;
+  markdown?: (output: T) => string;
+  maxTokens?: number;
+  list?: keyof T;
+  fetch?: (kept: number) => string;
+  nextCursor?: NextCursor | null; // Resolved from how many results the response keeps
+}
+
+// Room left in max_tokens for the budget report itself
+const BUDGET_REPORT_TOKENS = 120;
+
+const FETCH_OMITTED = 'Raise max_tokens, or follow next_cursor - the next page starts with them';
+
 export class BeautifulFormatter {
   constructor() {
     // Robot face formatter with maximum information density
@@ -47,6 +100,74 @@ export class BeautifulFormatter {
     }
   }
 
+  // Header line plus the structured result, which tools also return as structuredContent.
+  // With a budget the results are packed into max_tokens, best first, and the rest reported.
+  // The next cursor follows on from the last result kept.
+  private render<T extends object>(
+    header: string,
+    structured: T,
+    options: RenderOptions<T> = {}
+  ): FormattedOutput<T> {
+    const kept = (output: T): number => {
+      const list = options.list && output[options.list];
+      return Array.isArray(list) ? list.length : 0;
+    };
+    const paged = (output: T): T => {
+      const nextCursor = options.nextCursor?.(kept(output));
+      return nextCursor ? { ...output, next_cursor: nextCursor } : output;
+    };
+    const text = (output: T): string => this.print(header, output, options);
+    const budget = options.maxTokens;
+    if (!budget || estimateTokens(text(paged(structured))) <= budget) {
+      const output = paged(structured);
+      return { text: text(output), structured: output };
+    }
+
+    const packed = packToBudget(structured, {
+      maxTokens: budget - BUDGET_REPORT_TOKENS,
+      list: options.list,
+      measure: (output) => estimateTokens(text(paged(output))),
+      shorten: (value, maxLength) => this.truncateText(value, maxLength),
+    });
+
+    const count = (n: number, noun: string): string => `${n} ${noun}${n === 1 ? '' : 's'}`;
+    const left = [
+      packed.omitted > 0 && `${count(packed.omitted, 'result')} left out`,
+      packed.shortened > 0 && `${count(packed.shortened, 'field')} shortened`,
+    ].filter(Boolean);
+    const report: BudgetOutput = {
+      max_tokens: budget,
+      omitted: packed.omitted,
+      shortened: packed.shortened,
+      hint: `${left.length > 0 ? left.join(' and ') : 'Nothing more could be cut'} to fit max_tokens=${budget}. ${options.fetch?.(kept(packed.structured)) || FETCH_OMITTED}`,
+    };
+    const output = { ...paged(packed.structured), budget: report };
+    return { text: text(output), structured: output };
+  }
+
+  // The text block: header, then the result as indented JSON, JSON on one line, or markdown
+  // with the budget report and next cursor as its closing notes
+  private print<T extends object>(
+    header: string,
+    output: T,
+    { format = 'json', markdown }: RenderOptions<T>
+  ): string {
+    if (format === 'compact') return `${header}\n${JSON.stringify(output)}`;
+    if (format !== 'markdown' || !markdown) {
+      return `${header}\n\n${JSON.stringify(output, null, 2)}`;
+    }
+
+    const { next_cursor, budget } = output as { next_cursor?: string; budget?: BudgetOutput };
+    return [
+      `## ${header}`,
+      markdown(output),
+      budget && `> **Budget:** ${budget.hint}`,
+      next_cursor && `More results: repeat the call with \`cursor: "${next_cursor}"\``,
+    ]
+      .filter(Boolean)
+      .join('\n\n');
+  }
+
   private truncateText(text: string, maxLength: number): string {
     if (text.length <= maxLength) return text;
     return this.smartTruncation(text, maxLength);
@@ -271,79 +392,103 @@ export class BeautifulFormatter {
 
   // MCP Tool Operation Formatters
 
-  formatSearchConversations(result: SearchResult, _detailLevel: string = 'summary'): string {
-    const header = `${robots.search} "${result.searchQuery}" | ${result.messages.length} results`;
+  formatSearchConversations(
+    result: SearchResult,
+    _detailLevel: string = 'summary',
+    nextCursor: NextCursor | null = null,
+    maxTokens: number = DEFAULT_MAX_TOKENS,
+    format: OutputFormat = 'json'
+  ): FormattedOutput<SearchConversationsOutput> {
+    const view: RenderOptions<SearchConversationsOutput> = {
+      format,
+      markdown: (output) => this.markdownSearchConversations(output),
+    };
+    // A scan stops once the page is full, so only a ranked search knows how many matched in all
+    const total = result.scanPositions ? undefined : result.totalResults;
+    const shown = total === undefined ? '' : ` of ${total}`;
+    const header = `${robots.search} "${result.searchQuery}" | ${result.messages.length}${shown} results`;
 
     if (result.messages.length === 0) {
-      return `${header}\n\n{"results":[]}`;
+      return this.render(header, { total, results: [] }, view);
     }
 
-    const rankedMessages = this.rankAndDeduplicateMessages(result.messages);
-    const topMessages = rankedMessages.slice(0, 8);
-
-    const structured = {
-      results: topMessages.map((msg) => ({
+    // Results keep the engine's order - a page is a slice of one ranking, so nothing is re-sorted
+    const structured: SearchConversationsOutput = {
+      total,
+      results: result.messages.map((msg) => ({
+        uuid: msg.uuid,
+        session: msg.sessionId,
         type: msg.type,
         ts: this.formatTimestamp(msg.timestamp),
         content: msg.content,
         project: msg.projectPath?.split('/').pop() || null,
-        score: msg.relevanceScore || msg.score || null,
+        repo: (msg.repo && msg.repo !== msg.projectPath && msg.repo.split('/').pop()) || null,
+        score: msg.relevanceScore || null,
         ctx: msg.context || null,
+        results: this.formatToolResults(msg),
+        thinking: msg.thinking || null,
+        thread: this.formatThread(msg),
+        matches: this.formatMatches(msg),
       })),
     };
 
-    return `${header}\n\n${JSON.stringify(structured, null, 2)}`;
+    return this.render(header, structured, {
+      ...view,
+      maxTokens,
+      nextCursor,
+      list: 'results',
+      fetch: () =>
+        `${FETCH_OMITTED}. get_message_context shows a shortened message in full, given max_tokens to match`,
+    });
   }
 
-  private rankAndDeduplicateMessages(messages: any[]): any[] {
-    // Score messages by information density and uniqueness
-    const scored = messages.map((msg) => {
-      let score = 0;
-      const content = msg.content.toLowerCase();
-
-      // Higher score for technical content
-      if (this.detectContentType(msg.content) === 'technical') score += 50;
-      if (this.detectContentType(msg.content) === 'code') score += 60;
-      if (this.detectContentType(msg.content) === 'error') score += 70;
-
-      // Boost for actionable content
-      if (/(fix|solution|implement|deploy|build)/i.test(content)) score += 30;
-      if (/(error|fail|issue|problem)/i.test(content)) score += 25;
-      if (/(success|complete|working|done)/i.test(content)) score += 20;
-
-      // Penalize generic content
-      if (/(hello|thanks|okay|sure|yes|no)$/.test(content.trim())) score -= 20;
-
-      // Boost for file references
-      if (msg.context?.filesReferenced?.length) score += msg.context.filesReferenced.length * 10;
+  // Each match with its offsets and a snippet marking it in **bold**
+  private formatMatches(message: CompactMessage): MatchOutput[] | null {
+    if (!message.matches?.length) return null;
+
+    return message.matches.map((match) => {
+      const text =
+        match.field === 'content'
+          ? message.content
+          : match.field === 'thinking'
+            ? message.thinking || ''
+            : message.toolResults?.[match.resultIndex || 0]?.content || '';
+
+      const before = text.substring(Math.max(0, match.start - 60), match.start);
+      const after = text.substring(match.end, match.end + 60);
+      const hit = text.substring(match.start, match.end);
+
+      return {
+        in: match.field === 'result' ? `results[${match.resultIndex}]` : match.field,
+        at: [match.start, match.end],
+        text: `${match.start > 60 ? '…' : ''}${before}**${hit}**${after}${match.end + 60 < text.length ? '…' : ''}`,
+      };
+    });
+  }
 
-      // Boost for tool usage
-      if (msg.context?.toolsUsed?.length) score += msg.context.toolsUsed.length * 5;
+  private formatThread(message: CompactMessage): SearchHitOutput['thread'] {
+    if (!message.thread) return null;
 
-      return { ...msg, score };
+    const brief = (msg: CompactMessage): BriefMessageOutput => ({
+      type: msg.type,
+      ts: this.formatTimestamp(msg.timestamp),
+      content: msg.content,
     });
 
-    // Deduplicate similar content
-    const deduplicated: any[] = [];
-    for (const msg of scored) {
-      const isDuplicate = deduplicated.some(
-        (existing) => this.calculateSimilarity(msg.content, existing.content) > 0.8
-      );
-      if (!isDuplicate) {
-        deduplicated.push(msg);
-      }
-    }
-
-    // Sort by score descending
-    return deduplicated.sort((a, b) => b.score - a.score);
+    return {
+      parent: message.thread.parent ? brief(message.thread.parent) : null,
+      replies: message.thread.replies.map(brief),
+    };
   }
 
-  private calculateSimilarity(text1: string, text2: string): number {
-    const words1 = new Set(text1.toLowerCase().split(/\s+/));
-    const words2 = new Set(text2.toLowerCase().split(/\s+/));
-    const intersection = new Set([...words1].filter((x) => words2.has(x)));
-    const union = new Set([...words1, ...words2]);
-    return intersection.size / union.size;
+  private formatToolResults(message: CompactMessage): ToolResultOutput[] | null {
+    if (!message.toolResults?.length) return null;
+
+    return message.toolResults.map((result) => ({
+      tool: result.toolName || null,
+      error: result.isError || false,
+      output: result.content,
+    }));
   }
 
   private aggregateContext(message: any): string {
@@ -374,21 +519,23 @@ export class BeautifulFormatter {
   formatSimilarQueries(
     queries: CompactMessage[],
     originalQuery: string,
-    _detailLevel: string = 'summary'
-  ): string {
+    _detailLevel: string = 'summary',
+    nextCursor: NextCursor | null = null,
+    maxTokens: number = DEFAULT_MAX_TOKENS,
+    format: OutputFormat = 'json'
+  ): FormattedOutput<SimilarQueriesOutput> {
+    const view: RenderOptions<SimilarQueriesOutput> = {
+      format,
+      markdown: (output) => this.markdownSimilarQueries(output),
+    };
     const header = `${robots.similar} "${originalQuery}" | ${queries.length} similar`;
 
     if (queries.length === 0) {
-      return `${header}\n\n{"similar":[]}`;
+      return this.render(header, { similar: [] }, view);
     }
 
-    const clusteredQueries = this.clusterBySemantic(queries, originalQuery);
-    const highValueQueries = clusteredQueries.filter(
-      (q) => q.relevanceScore && q.relevanceScore > 0.1
-    );
-
-    const structured = {
-      similar: highValueQueries.map((q) => ({
+    const structured: SimilarQueriesOutput = {
+      similar: queries.map((q) => ({
         question: q.content,
         answer: q.context?.claudeInsights?.[0] || null,
         ts: this.formatTimestamp(q.timestamp),
@@ -398,54 +545,36 @@ export class BeautifulFormatter {
       })),
     };
 
-    return `${header}\n\n${JSON.stringify(structured, null, 2)}`;
-  }
-
-  private clusterBySemantic(queries: CompactMessage[], originalQuery: string): CompactMessage[] {
-    // Boost relevance scores based on semantic similarity
-    return queries
-      .map((query) => {
-        let boostedScore = query.relevanceScore || 0;
-
-        // Boost for exact keyword matches
-        const originalWords = originalQuery.toLowerCase().split(/\s+/);
-        const queryWords = query.content.toLowerCase().split(/\s+/);
-        const matchCount = originalWords.filter((word) => queryWords.includes(word)).length;
-        boostedScore += matchCount * 0.1;
-
-        // Boost for technical similarity
-        if (this.detectContentType(query.content) === this.detectContentType(originalQuery)) {
-          boostedScore += 0.2;
-        }
-
-        // Boost for actionable content
-        if (/(fix|solve|implement|build|deploy)/.test(query.content.toLowerCase())) {
-          boostedScore += 0.15;
-        }
-
-        return { ...query, relevanceScore: Math.min(boostedScore, 1.0) };
-      })
-      .sort((a, b) => (b.relevanceScore || 0) - (a.relevanceScore || 0));
+    return this.render(header, structured, {
+      ...view,
+      maxTokens,
+      nextCursor,
+      list: 'similar',
+    });
   }
 
   formatFileContext(
     contexts: FileContext[],
     filepath: string,
     _detailLevel: string = 'summary',
-    _operationType: string = 'all'
-  ): string {
+    _operationType: string = 'all',
+    nextCursor: NextCursor | null = null,
+    maxTokens: number = DEFAULT_MAX_TOKENS,
+    format: OutputFormat = 'json'
+  ): FormattedOutput<FileContextOutput> {
+    const view: RenderOptions<FileContextOutput> = {
+      format,
+      markdown: (output) => this.markdownFileContext(output),
+    };
     const header = `${robots.fileContext} "${filepath}" | ${contexts.length} operations`;
 
     if (contexts.length === 0) {
-      return `${header}\n\n{"operations":[]}`;
+      return this.render(header, { filepath, operations: [] }, view);
     }
 
-    const rankedContexts = this.rankFileContextsByImpact(contexts);
-    const topContexts = rankedContexts.slice(0, 15);
-
-    const structured = {
+    const structured: FileContextOutput = {
       filepath,
-      operations: topContexts.map((ctx) => ({
+      operations: contexts.map((ctx) => ({
         type: ctx.operationType,
         ts: this.formatTimestamp(ctx.lastModified),
         changes: this.extractFileChanges(ctx.relatedMessages, filepath),
@@ -454,38 +583,12 @@ export class BeautifulFormatter {
       })),
     };
 
-    return `${header}\n\n${JSON.stringify(structured, null, 2)}`;
-  }
-
-  private rankFileContextsByImpact(contexts: FileContext[]): FileContext[] {
-    return contexts
-      .map((context) => {
-        let score = 0;
-
-        // Higher score for more recent operations
-        const daysSince =
-          (Date.now() - new Date(context.lastModified).getTime()) / (1000 * 60 * 60 * 24);
-        score += Math.max(0, 10 - daysSince); // Recent operations score higher
-
-        // Boost for critical operations
-        if (context.operationType.toLowerCase().includes('edit')) score += 20;
-        if (context.operationType.toLowerCase().includes('create')) score += 15;
-        if (context.operationType.toLowerCase().includes('read')) score += 5;
-
-        // Boost for more messages (indicates complex operations)
-        score += context.relatedMessages.length * 2;
-
-        // Boost for technical content
-        context.relatedMessages.forEach((msg) => {
-          const contentType = this.detectContentType(msg.content);
-          if (contentType === 'code') score += 10;
-          if (contentType === 'error') score += 15;
-          if (contentType === 'technical') score += 8;
-        });
-
-        return { ...context, score };
-      })
-      .sort((a, b) => (b as any).score - (a as any).score);
+    return this.render(header, structured, {
+      ...view,
+      maxTokens,
+      nextCursor,
+      list: 'operations',
+    });
   }
 
   private selectBestMessage(messages: any[]): any {
@@ -565,20 +668,24 @@ export class BeautifulFormatter {
   formatErrorSolutions(
     solutions: ErrorSolution[],
     errorPattern: string,
-    _detailLevel: string = 'summary'
-  ): string {
+    _detailLevel: string = 'summary',
+    nextCursor: NextCursor | null = null,
+    maxTokens: number = DEFAULT_MAX_TOKENS,
+    format: OutputFormat = 'json'
+  ): FormattedOutput<ErrorSolutionsOutput> {
+    const view: RenderOptions<ErrorSolutionsOutput> = {
+      format,
+      markdown: (output) => this.markdownErrorSolutions(output),
+    };
     const header = `${robots.errorSolutions} "${errorPattern}" | ${solutions.length} solutions`;
 
     if (solutions.length === 0) {
-      return `${header}\n\n{"solutions":[]}`;
+      return this.render(header, { error_pattern: errorPattern, solutions: [] }, view);
     }
 
-    const rankedSolutions = this.rankErrorSolutions(solutions);
-    const topSolutions = rankedSolutions.slice(0, 5);
-
-    const structured = {
+    const structured: ErrorSolutionsOutput = {
       error_pattern: errorPattern,
-      solutions: topSolutions.map((sol) => {
+      solutions: solutions.map((sol) => {
         // Include multiple fixes from all solutions, not just the first
         const fixes = sol.solution.map((s) => ({
           content: s.content,
@@ -595,29 +702,12 @@ export class BeautifulFormatter {
       }),
     };
 
-    return `${header}\n\n${JSON.stringify(structured, null, 2)}`;
-  }
-
-  private rankErrorSolutions(solutions: ErrorSolution[]): ErrorSolution[] {
-    return solutions
-      .map((solution) => {
-        let score = 0;
-
-        // Higher score for more frequent errors (more important to solve)
-        score += solution.frequency * 5;
-
-        // Boost for solutions with actionable content
-        solution.solution.forEach((sol) => {
-          const content = sol.content.toLowerCase();
-          if (/(fix|solution|resolved|implemented|deploy)/i.test(content)) score += 20;
-          if (/(npm|install|config|update|build)/i.test(content)) score += 15;
-          if (this.detectContentType(sol.content) === 'code') score += 25;
-          if (this.detectContentType(sol.content) === 'technical') score += 10;
-        });
-
-        return { ...solution, score };
-      })
-      .sort((a, b) => (b as any).score - (a as any).score);
+    return this.render(header, structured, {
+      ...view,
+      maxTokens,
+      nextCursor,
+      list: 'solutions',
+    });
   }
 
   private selectBestSolution(solutions: any[]): any {
@@ -643,21 +733,25 @@ export class BeautifulFormatter {
   formatToolPatterns(
     patterns: ToolPattern[],
     toolName?: string,
-    _patternType: string = 'tools'
-  ): string {
+    _patternType: string = 'tools',
+    nextCursor: NextCursor | null = null,
+    maxTokens: number = DEFAULT_MAX_TOKENS,
+    format: OutputFormat = 'json'
+  ): FormattedOutput<ToolPatternsOutput> {
+    const view: RenderOptions<ToolPatternsOutput> = {
+      format,
+      markdown: (output) => this.markdownToolPatterns(output),
+    };
     const filter = toolName ? `"${toolName}"` : 'all';
     const header = `${robots.toolPatterns} ${filter} | ${patterns.length} patterns`;
 
     if (patterns.length === 0) {
-      return `${header}\n\n{"patterns":[]}`;
+      return this.render(header, { tool: toolName || 'all', patterns: [] }, view);
     }
 
-    const rankedPatterns = this.rankToolPatternsByValue(patterns);
-    const topPatterns = rankedPatterns.slice(0, 8);
-
-    const structured = {
+    const structured: ToolPatternsOutput = {
       tool: toolName || 'all',
-      patterns: topPatterns.map((p) => ({
+      patterns: patterns.map((p) => ({
         name: p.toolName,
         uses: p.successfulUsages.length,
         workflow: p.commonPatterns[0] || null,
@@ -667,43 +761,12 @@ export class BeautifulFormatter {
       })),
     };
 
-    return `${header}\n\n${JSON.stringify(structured, null, 2)}`;
-  }
-
-  private rankToolPatternsByValue(patterns: ToolPattern[]): ToolPattern[] {
-    return patterns
-      .map((pattern) => {
-        let score = 0;
-
-        // Higher score for more successful usages
-        score += pattern.successfulUsages.length * 2;
-
-        // Boost for commonly used tools
-        if (/(Read|Edit|Bash|Grep|Glob)/i.test(pattern.toolName)) score += 20;
-
-        // Boost for patterns with actionable practices
-        pattern.bestPractices.forEach((practice) => {
-          if (/(efficient|fast|optimal|best)/i.test(practice)) score += 10;
-          if (practice.length > 50) score += 5; // Detailed practices
-        });
-
-        // Prioritize actual patterns (with file names, commands) over workflow patterns
-        pattern.commonPatterns.forEach((p) => {
-          // Heavy boost for actual file/command patterns (not generic fallbacks)
-          if (!p.includes('usage pattern') && !p.includes('→') && p.includes(':')) {
-            score += 30; // Actual file-level patterns get highest priority
-          }
-          // Lower boost for workflow patterns (tool chains)
-          else if (/→/.test(p)) {
-            score += 5; // Workflows secondary to actual patterns
-          }
-          // Generic content patterns
-          if (/(file|search|edit|build)/i.test(p)) score += 8;
-        });
-
-        return { ...pattern, score };
-      })
-      .sort((a, b) => (b as any).score - (a as any).score);
+    return this.render(header, structured, {
+      ...view,
+      maxTokens,
+      nextCursor,
+      list: 'patterns',
+    });
   }
 
   private calculateToolEfficiency(pattern: ToolPattern): number {
@@ -736,61 +799,59 @@ export class BeautifulFormatter {
     return practices[0] || '';
   }
 
-  formatRecentSessions(sessions: any[], project?: string): string {
+  formatRecentSessions(
+    sessions: RecentSession[],
+    project?: string,
+    nextCursor: NextCursor | null = null,
+    maxTokens: number = DEFAULT_MAX_TOKENS,
+    format: OutputFormat = 'json'
+  ): FormattedOutput<RecentSessionsOutput> {
+    const view: RenderOptions<RecentSessionsOutput> = {
+      format,
+      markdown: (output) => this.markdownRecentSessions(output),
+    };
     const filter = project ? `"${project}"` : 'all';
     const header = `${robots.sessions} ${filter} | ${sessions.length} sessions`;
 
     if (sessions.length === 0) {
-      return `${header}\n\n{"sessions":[]}`;
+      return this.render(header, { sessions: [] }, view);
     }
 
-    const rankedSessions = this.rankSessionsByProductivity(sessions);
-    const topSessions = rankedSessions.slice(0, 10);
-
-    const structured = {
-      sessions: topSessions.map((s) => ({
+    const structured: RecentSessionsOutput = {
+      sessions: sessions.map((s) => ({
         id: s.session_id?.substring(0, 8) || null,
-        ts: this.formatTimestamp(s.end_time || s.start_time),
+        ts: this.formatTimestamp(s.end_time || s.start_time || ''),
         duration: s.duration_minutes || 0,
         messages: s.message_count || 0,
         project: s.project_path?.split('/').pop() || null,
+        repo: (s.repo_path !== s.project_path && s.repo_path.split('/').pop()) || null,
         tools: s.tools_used || null,
         accomplishments: s.accomplishments || null,
       })),
     };
 
-    return `${header}\n\n${JSON.stringify(structured, null, 2)}`;
+    return this.render(header, structured, {
+      ...view,
+      maxTokens,
+      nextCursor,
+      list: 'sessions',
+    });
   }
 
-  private rankSessionsByProductivity(sessions: any[]): any[] {
-    return sessions
-      .map((session) => {
-        let score = 0;
+  formatSessionList(sessions: SessionListing[], project: string): string {
+    const header = `${robots.sessions} "${project}" | ${sessions.length} sessions`;
 
-        // Score based on message density (messages per minute)
-        const duration = session.duration_minutes || 1;
-        const messageCount = session.message_count || 0;
-        const density = messageCount / duration;
-        score += density * 10;
-
-        // Boost for recent sessions
-        const timestamp = session.end_time || session.start_time;
-        if (timestamp) {
-          const hoursAgo = (Date.now() - new Date(timestamp).getTime()) / (1000 * 60 * 60);
-          score += Math.max(0, 24 - hoursAgo); // Recent sessions score higher
-        }
-
-        // Boost for longer sessions (indicates focus work)
-        if (duration > 30) score += 20;
-        if (duration > 60) score += 30;
-
-        // Boost for high message count (indicates activity)
-        if (messageCount > 50) score += 15;
-        if (messageCount > 100) score += 25;
+    const structured = {
+      sessions: sessions.map((s) => ({
+        id: s.sessionId,
+        ts: this.formatTimestamp(s.lastActivity),
+        messages: s.messageCount,
+        project: s.projectPath.split('/').pop() || null,
+        repo: s.repoPath !== s.projectPath ? s.repoPath.split('/').pop() : null,
+      })),
+    };
 
-        return { ...session, score };
-      })
-      .sort((a, b) => (b as any).score - (a as any).score);
+    return `${header}\n\n${JSON.stringify(structured, null, 2)}`;
   }
 
   private calculateProductivityScore(session: any): number {
@@ -811,10 +872,19 @@ export class BeautifulFormatter {
     return tools;
   }
 
-  formatCompactSummary(sessions: any[], sessionId?: string): string {
+  formatCompactSummary(
+    sessions: any[],
+    sessionId?: string,
+    maxTokens: number = DEFAULT_MAX_TOKENS,
+    format: OutputFormat = 'json'
+  ): FormattedOutput<CompactSummaryOutput> {
+    const view: RenderOptions<CompactSummaryOutput> = {
+      format,
+      markdown: (output) => this.markdownCompactSummary(output),
+    };
     if (sessions.length === 0) {
       const filter = sessionId ? `"${sessionId}"` : 'latest';
-      return `${robots.summary} ${filter}\n\n{"session":null}`;
+      return this.render(`${robots.summary} ${filter}`, { session: null }, view);
     }
 
     const s = sessions[0];
@@ -822,10 +892,10 @@ export class BeautifulFormatter {
     const projectName = s.project_path?.split('/').pop() || 'unknown';
     const shortId = s.session_id?.substring(0, 8) || sessionId?.substring(0, 8) || 'latest';
     const header = `${robots.summary} extracting summary from ${projectName} (${shortId})`;
-    const structured = {
+    const structured: CompactSummaryOutput = {
       session: {
         id: s.session_id?.substring(0, 8) || null,
-        ts: this.formatTimestamp(s.end_time || s.start_time),
+        ts: this.formatTimestamp(s.end_time || s.start_time || ''),
         duration: s.duration_minutes || 0,
         messages: s.message_count || 0,
         project: s.project_path?.split('/').pop() || null,
@@ -836,32 +906,187 @@ export class BeautifulFormatter {
       },
     };
 
-    return `${header}\n\n${JSON.stringify(structured, null, 2)}`;
+    return this.render(header, structured, {
+      ...view,
+      maxTokens,
+      fetch: () => 'Raise max_tokens, or lower max_messages',
+    });
+  }
+
+  formatSessionTranscript(
+    lookup: TranscriptLookup,
+    sessionReference: string,
+    nextCursor: NextCursor | null = null,
+    maxTokens: number = DEFAULT_MAX_TOKENS,
+    format: OutputFormat = 'json'
+  ): FormattedOutput<SessionTranscriptOutput> {
+    const view: RenderOptions<SessionTranscriptOutput> = {
+      format,
+      markdown: (output) => this.markdownSessionTranscript(output),
+    };
+    const transcript = lookup.transcript;
+
+    if (!transcript) {
+      const status = lookup.candidates.length > 1 ? 'ambiguous' : 'not found';
+      const header = `${robots.transcript} "${sessionReference}" | ${status}`;
+      return this.render(header, { session: null, candidates: lookup.candidates }, view);
+    }
+
+    const projectName = transcript.projectPath.split('/').pop() || 'unknown';
+    const first = transcript.messages.length > 0 ? transcript.offset + 1 : transcript.offset;
+    const last = transcript.offset + transcript.messages.length;
+    const header = `${robots.transcript} ${projectName} (${transcript.sessionId.substring(0, 8)}) | ${first}-${last} of ${transcript.totalMessages}`;
+
+    const structured: SessionTranscriptOutput = {
+      session: transcript.sessionId,
+      project: projectName,
+      total: transcript.totalMessages,
+      offset: transcript.offset,
+      next_offset: transcript.nextOffset,
+      branch_points: transcript.branchPoints.length > 0 ? transcript.branchPoints : null,
+      messages: transcript.messages.map((msg) => ({
+        uuid: msg.uuid,
+        type: msg.type,
+        ts: this.formatTimestamp(msg.timestamp),
+        content: msg.content,
+        sidechain: msg.isSidechain || undefined,
+        results: this.formatToolResults(msg) || undefined,
+      })),
+    };
+
+    // Messages are in order, so the ones left out are the end of the page - next_cursor starts there
+    return this.render(header, structured, {
+      ...view,
+      maxTokens,
+      nextCursor,
+      list: 'messages',
+      fetch: (kept) =>
+        `Follow next_cursor, or repeat with offset=${transcript.offset + kept}, for the messages left out - or raise max_tokens`,
+    });
+  }
+
+  formatMessageContext(
+    context: MessageContext | null,
+    uuid: string,
+    maxTokens: number = DEFAULT_MAX_TOKENS,
+    format: OutputFormat = 'json'
+  ): FormattedOutput<MessageContextOutput> {
+    const view: RenderOptions<MessageContextOutput> = {
+      format,
+      markdown: (output) => this.markdownMessageContext(output),
+    };
+    if (!context) {
+      return this.render(`${robots.context} "${uuid}" | not found`, { messages: [] }, view);
+    }
+
+    const projectName = context.projectPath.split('/').pop() || 'unknown';
+    const header = `${robots.context} ${projectName} (${context.sessionId.substring(0, 8)}) | ${context.messages.length} messages around ${uuid.substring(0, 8)}`;
+
+    const structured: MessageContextOutput = {
+      session: context.sessionId,
+      project: projectName,
+      messages: context.messages.map((msg) => ({
+        uuid: msg.uuid,
+        anchor: msg.uuid === context.anchorUuid || undefined,
+        type: msg.type,
+        ts: this.formatTimestamp(msg.timestamp),
+        content: msg.content,
+        results: this.formatToolResults(msg) || undefined,
+      })),
+    };
+
+    return this.render(header, structured, {
+      ...view,
+      maxTokens,
+      list: 'messages',
+      fetch: () => 'Raise max_tokens, or ask for fewer messages with before and after',
+    });
+  }
+
+  formatUsageStats(
+    report: UsageReport,
+    project?: string,
+    nextCursor: NextCursor | null = null,
+    maxTokens: number = DEFAULT_MAX_TOKENS,
+    format: OutputFormat = 'json'
+  ): FormattedOutput<UsageStatsOutput> {
+    const view: RenderOptions<UsageStatsOutput> = {
+      format,
+      markdown: (output) => this.markdownUsageStats(output),
+    };
+    const filter = project ? `"${project}"` : 'all';
+    const cost = `$${report.totals.estimatedCost.toFixed(2)}`;
+    const header = `${robots.usage} ${filter} by ${report.groupBy} | ${this.formatTokenCount(report.totals.totalTokens)} tokens, ~${cost}`;
+
+    const summarize = (group: UsageGroup): UsageGroupOutput => ({
+      key: group.key,
+      responses: group.messages,
+      input: group.inputTokens,
+      output: group.outputTokens,
+      cache_write: group.cacheCreationTokens,
+      cache_read: group.cacheReadTokens,
+      total: group.totalTokens,
+      cost_usd: Math.round(group.estimatedCost * 100) / 100,
+    });
+
+    const structured: UsageStatsOutput = {
+      totals: summarize(report.totals),
+      groups: report.groups.map(summarize),
+      more_groups: report.totalGroups - report.groups.length || undefined,
+      prices: report.priceSource,
+      unpriced_models: report.unpricedModels.length > 0 ? report.unpricedModels : undefined,
+    };
+
+    return this.render(header, structured, {
+      ...view,
+      maxTokens,
+      nextCursor,
+      list: 'groups',
+    });
   }
 
-  formatPlanSearch(result: PlanSearchResult, _detailLevel: string = 'summary'): string {
+  private formatTokenCount(tokens: number): string {
+    if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+    if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+    return String(tokens);
+  }
+
+  formatPlanSearch(
+    result: PlanSearchResult,
+    _detailLevel: string = 'summary',
+    nextCursor: NextCursor | null = null,
+    maxTokens: number = DEFAULT_MAX_TOKENS,
+    format: OutputFormat = 'json'
+  ): FormattedOutput<PlanSearchOutput> {
+    const view: RenderOptions<PlanSearchOutput> = {
+      format,
+      markdown: (output) => this.markdownPlanSearch(output),
+    };
     const header = `${robots.plans} "${result.searchQuery}" | ${result.plans.length} plans`;
 
     if (result.plans.length === 0) {
-      return `${header}\n\n{"plans":[]}`;
+      return this.render(header, { plans: [] }, view);
     }
 
-    const topPlans = result.plans.slice(0, 10);
-
-    const structured = {
-      plans: topPlans.map((plan) => ({
+    const structured: PlanSearchOutput = {
+      plans: result.plans.map((plan) => ({
         name: plan.name,
         ts: this.formatTimestamp(plan.timestamp),
         title: plan.title,
         goal: this.extractPlanGoal(plan.content),
         key_insight: this.extractKeyInsight(plan.content),
-        sections: plan.sections.slice(0, 6),
-        files: plan.filesMentioned.slice(0, 8),
+        sections: plan.sections,
+        files: plan.filesMentioned,
         score: plan.relevanceScore,
       })),
     };
 
-    return `${header}\n\n${JSON.stringify(structured, null, 2)}`;
+    return this.render(header, structured, {
+      ...view,
+      maxTokens,
+      nextCursor,
+      list: 'plans',
+    });
   }
 
   private extractPlanGoal(content: string): string | null {
@@ -991,4 +1216,268 @@ export class BeautifulFormatter {
 
     return cleaned.length >= 15 ? cleaned : null;
   }
+
+  // Markdown bodies for output_format=markdown, one per tool output
+
+  private markdownSearchConversations(output: SearchConversationsOutput): string {
+    if (output.results.length === 0) return '_No matching messages._';
+
+    return output.results
+      .map((hit, i) => {
+        const where = [hit.type, hit.project, hit.repo && `repo ${hit.repo}`, hit.ts];
+        const lines = [
+          `### ${i + 1}. ${where.filter(Boolean).join(' · ')}`,
+          this.mdQuote(hit.content),
+          `_session \`${hit.session}\` · uuid \`${hit.uuid}\`${hit.score ? ` · score ${hit.score.toFixed(2)}` : ''}_`,
+        ];
+
+        if (hit.matches?.length) {
+          lines.push(
+            hit.matches.map((match) => `- ${match.in} [${match.at}]: ${match.text}`).join('\n')
+          );
+        }
+        if (hit.thinking) lines.push(`**Thinking**\n\n${this.mdQuote(hit.thinking)}`);
+        lines.push(...this.mdToolResults(hit.results));
+        if (hit.thread?.parent) {
+          lines.push(
+            `**In reply to** (${hit.thread.parent.type}, ${hit.thread.parent.ts})\n\n${this.mdQuote(hit.thread.parent.content)}`
+          );
+        }
+        for (const reply of hit.thread?.replies || []) {
+          lines.push(`**Reply** (${reply.type}, ${reply.ts})\n\n${this.mdQuote(reply.content)}`);
+        }
+        lines.push(...this.mdContext(hit.ctx));
+
+        return lines.join('\n\n');
+      })
+      .join('\n\n');
+  }
+
+  private markdownSimilarQueries(output: SimilarQueriesOutput): string {
+    if (output.similar.length === 0) return '_No similar questions._';
+
+    return output.similar
+      .map((query, i) => {
+        const lines = [
+          `${i + 1}. **${this.mdLine(query.question)}**`,
+          `   _${[query.project, query.ts].filter(Boolean).join(' · ')}_`,
+        ];
+        if (query.answer) lines.push(`   ${this.mdLine(query.answer)}`);
+        return lines.join('\n');
+      })
+      .join('\n');
+  }
+
+  // A timeline: one list entry per operation, newest ranking first, changes nested under it
+  private markdownFileContext(output: FileContextOutput): string {
+    if (output.operations.length === 0) return `_No history for \`${output.filepath}\`._`;
+
+    return output.operations
+      .map((operation) => {
+        const lines = [`- **${operation.type}** · ${operation.ts}`];
+        for (const change of operation.changes) lines.push(`  - ${this.mdLine(change)}`);
+        if (operation.content) lines.push(`  - ${this.mdLine(operation.content)}`);
+        return lines.join('\n');
+      })
+      .join('\n');
+  }
+
+  private markdownErrorSolutions(output: ErrorSolutionsOutput): string {
+    if (output.solutions.length === 0) return `_No past occurrences of "${output.error_pattern}"._`;
+
+    return output.solutions
+      .map((solution) => {
+        const lines = [`### ${this.mdLine(solution.pattern)} (seen ${solution.frequency}×)`];
+        for (const fix of solution.fixes) {
+          lines.push(this.mdQuote(fix.content));
+          if (fix.files?.length)
+            lines.push(`Files: ${fix.files.map((file) => `\`${file}\``).join(', ')}`);
+          lines.push(...(fix.code || []).map((code) => this.mdFence(code)));
+        }
+        return lines.join('\n\n');
+      })
+      .join('\n\n');
+  }
+
+  private markdownToolPatterns(output: ToolPatternsOutput): string {
+    if (output.patterns.length === 0) return '_No tool usage found._';
+
+    return this.mdTable(
+      ['Tool', 'Uses', 'Workflow', 'Practice', 'Example'],
+      output.patterns.map((pattern) => [
+        pattern.name,
+        pattern.uses,
+        pattern.workflow,
+        pattern.practice,
+        pattern.example,
+      ])
+    );
+  }
+
+  private markdownRecentSessions(output: RecentSessionsOutput): string {
+    if (output.sessions.length === 0) return '_No sessions._';
+
+    return this.mdTable(
+      ['Session', 'Last active', 'Minutes', 'Messages', 'Project', 'Tools', 'Accomplishments'],
+      output.sessions.map((session) => [
+        session.id && `\`${session.id}\``,
+        session.ts,
+        session.duration,
+        session.messages,
+        session.repo ? `${session.project} (${session.repo})` : session.project,
+        session.tools?.join(', '),
+        session.accomplishments?.join('; '),
+      ])
+    );
+  }
+
+  private markdownCompactSummary(output: CompactSummaryOutput): string {
+    const session = output.session;
+    if (!session) return '_Session not found._';
+
+    const section = (title: string, items: string[] | null): string | null =>
+      items?.length
+        ? `**${title}**\n\n${items.map((item) => `- ${this.mdLine(item)}`).join('\n')}`
+        : null;
+
+    return [
+      `\`${session.id}\` · ${session.project} · ${session.ts} · ${session.duration} min · ${session.messages} messages`,
+      section('Accomplishments', session.accomplishments),
+      section('Decisions', session.decisions),
+      section('Files', session.files),
+      session.tools?.length ? `**Tools:** ${session.tools.join(', ')}` : null,
+    ]
+      .filter(Boolean)
+      .join('\n\n');
+  }
+
+  private markdownSessionTranscript(output: SessionTranscriptOutput): string {
+    if (!output.session) {
+      return output.candidates?.length
+        ? `Ambiguous session id, it matches:\n\n${output.candidates.map((id) => `- \`${id}\``).join('\n')}`
+        : '_Session not found._';
+    }
+
+    const lines = [this.mdDialogue(output.messages || [])];
+    if (output.branch_points?.length) {
+      lines.push(`_Branches at: ${output.branch_points.map((uuid) => `\`${uuid}\``).join(', ')}_`);
+    }
+    return lines.join('\n\n');
+  }
+
+  private markdownMessageContext(output: MessageContextOutput): string {
+    if (output.messages.length === 0) return '_Message not found._';
+    return this.mdDialogue(output.messages);
+  }
+
+  private markdownUsageStats(output: UsageStatsOutput): string {
+    const row = (group: UsageGroupOutput): (string | number)[] => [
+      group.key,
+      group.responses,
+      this.formatTokenCount(group.input),
+      this.formatTokenCount(group.output),
+      this.formatTokenCount(group.cache_write),
+      this.formatTokenCount(group.cache_read),
+      this.formatTokenCount(group.total),
+      `$${group.cost_usd.toFixed(2)}`,
+    ];
+
+    const lines = [
+      this.mdTable(
+        ['Group', 'Responses', 'Input', 'Output', 'Cache write', 'Cache read', 'Total', 'Cost'],
+        [...output.groups.map(row), row({ ...output.totals, key: '**Total**' })]
+      ),
+      `_Prices: ${output.prices}_`,
+    ];
+    if (output.more_groups) lines.push(`_${output.more_groups} more groups_`);
+    if (output.unpriced_models?.length) {
+      lines.push(`_No price for: ${output.unpriced_models.join(', ')}_`);
+    }
+    return lines.join('\n\n');
+  }
+
+  private markdownPlanSearch(output: PlanSearchOutput): string {
+    if (output.plans.length === 0) return '_No matching plans._';
+
+    return output.plans
+      .map((plan) => {
+        const lines = [`### ${plan.title || plan.name}`, `_\`${plan.name}\` · ${plan.ts}_`];
+        if (plan.goal) lines.push(`**Goal:** ${plan.goal}`);
+        if (plan.key_insight) lines.push(`**Key insight:** ${plan.key_insight}`);
+        if (plan.sections.length)
+          lines.push(plan.sections.map((section) => `- ${section}`).join('\n'));
+        if (plan.files.length)
+          lines.push(`Files: ${plan.files.map((file) => `\`${file}\``).join(', ')}`);
+        return lines.join('\n\n');
+      })
+      .join('\n\n');
+  }
+
+  // Messages as quoted dialogue, tool output fenced beneath the message that received it
+  private mdDialogue(messages: TranscriptMessageOutput[]): string {
+    return messages
+      .map((msg) => {
+        const marks = [msg.anchor && '◀ anchor', msg.sidechain && 'sidechain'].filter(Boolean);
+        const lines = [
+          `**${msg.type}** · ${msg.ts} · \`${msg.uuid}\`${marks.length ? ` · ${marks.join(' · ')}` : ''}`,
+          this.mdQuote(msg.content),
+          ...this.mdToolResults(msg.results || null),
+        ];
+        return lines.join('\n\n');
+      })
+      .join('\n\n');
+  }
+
+  private mdToolResults(results: ToolResultOutput[] | null): string[] {
+    return (results || []).map(
+      (result) =>
+        `${result.tool || 'Tool'} ${result.error ? 'failed' : 'returned'}:\n\n${this.mdFence(result.output)}`
+    );
+  }
+
+  private mdContext(ctx: MessageContextInfo | null): string[] {
+    if (!ctx) return [];
+
+    const refs = [
+      ctx.filesReferenced?.length &&
+        `Files: ${ctx.filesReferenced.map((file) => `\`${file}\``).join(', ')}`,
+      ctx.toolsUsed?.length && `Tools: ${ctx.toolsUsed.join(' → ')}`,
+    ].filter(Boolean);
+
+    return [
+      ...(refs.length ? [refs.join(' · ')] : []),
+      ...(ctx.codeSnippets || []).map((code) => this.mdFence(code)),
+    ];
+  }
+
+  private mdTable(headings: string[], rows: (string | number | null | undefined)[][]): string {
+    const cell = (value: string | number | null | undefined): string =>
+      value === null || value === undefined || value === ''
+        ? '-'
+        : this.mdLine(String(value)).replace(/\|/g, '\\|');
+
+    return [
+      `| ${headings.join(' | ')} |`,
+      `| ${headings.map(() => '---').join(' | ')} |`,
+      ...rows.map((row) => `| ${row.map(cell).join(' | ')} |`),
+    ].join('\n');
+  }
+
+  private mdLine(text: string): string {
+    return text.replace(/\s*\n\s*/g, ' ').trim();
+  }
+
+  private mdQuote(text: string): string {
+    return text
+      .split('\n')
+      .map((line) => (line ? `> ${line}` : '>'))
+      .join('\n');
+  }
+
+  // One backtick longer than any run inside, so the snippet can't close its own fence
+  private mdFence(code: string): string {
+    const longest = Math.max(2, ...(code.match(/`+/g) || []).map((run) => run.length));
+    const fence = '`'.repeat(longest + 1);
+    return `${fence}\n${code.replace(/\n+$/, '')}\n${fence}`;
+  }
 }
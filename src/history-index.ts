@@ -0,0 +1,1013 @@
+// Persistent inverted index over ~/.claude/projects (tokens → message locations)
+import { mkdir, readFile, rename, stat, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { ConversationParser } from './parser.js';
+import {
+  FIELDS,
+  OPT_IN_FIELDS,
+  CorpusStats,
+  FieldName,
+  bm25fTermScore,
+  inverseDocumentFrequency,
+} from './bm25.js';
+import { CompactMessage, TokenUsage, UsageRecord } from './types.js';
+import { QueryNode, positiveText } from './query-parser.js';
+import {
+  decodeProjectPath,
+  findProjectDirectories,
+  findJsonlFiles,
+  findPlanFiles,
+  getClaudePlansPath,
+  getClaudeProjectsPath,
+  getHistorianIndexPath,
+  getRepoRoot,
+  matchesProjectFilter,
+  resolveRepoRoots,
+} from './utils.js';
+
+const INDEX_VERSION = 8;
+// Each posting entry is [docId, ...termFrequency per field]
+const POSTING_STRIDE = FIELDS.length + 1;
+const INDEX_FILENAME = 'index.json';
+// Watcher updates land every few hundred ms while a session is live, and each snapshot rewrites
+// the whole index - so they are batched into one write per interval. A snapshot that misses the
+// last updates is still consistent: those files are re-read from their saved offsets next start.
+const SAVE_INTERVAL_MS = 30_000;
+
+// Words that appear in nearly every message and carry no search signal
+const STOP_WORDS = new Set([
+  'the',
+  'and',
+  'for',
+  'that',
+  'this',
+  'with',
+  'from',
+  'are',
+  'was',
+  'were',
+  'but',
+  'not',
+  'you',
+  'your',
+  'have',
+  'has',
+  'had',
+  'will',
+  'can',
+  'its',
+  'into',
+  'then',
+  'than',
+  'there',
+  'here',
+  'what',
+  'when',
+  'which',
+  'would',
+  'should',
+  'could',
+  'let',
+  'now',
+  'also',
+  'just',
+]);
+
+export interface IndexedDocument {
+  id: number;
+  projectDir: string;
+  file: string;
+  offset: number;
+  length: number;
+  uuid: string;
+  sessionId: string;
+  timestamp: string;
+  type: CompactMessage['type'];
+  lengths: number[]; // Token count per BM25F field
+  toolResultNames?: Record<string, string>; // toolUseId → tool name, resolved at index time
+  model?: string;
+  apiMessageId?: string;
+  usage?: TokenUsage;
+}
+
+export interface IndexHit {
+  doc: IndexedDocument;
+  score: number;
+}
+
+export interface IndexSearchResult {
+  hits: IndexHit[];
+  total: number; // Every match in range; phrase candidates left unread count as matches
+}
+
+export interface IndexSearchOptions {
+  limit: number;
+  projectFilter?: string;
+  timeFilter?: (timestamp: string) => boolean;
+  includeThinking?: boolean;
+}
+
+export interface SessionLocation {
+  sessionId: string;
+  projectDir: string;
+  file: string;
+  mtimeMs: number;
+  messageCount: number;
+}
+
+export interface ActiveSession extends SessionLocation {
+  lastActivity: string; // Newest matching message
+}
+
+export interface SessionFilter extends Omit<IndexSearchOptions, 'limit' | 'includeThinking'> {
+  literal?: string; // A matching message can contain this text, outside thinking
+}
+
+export interface IndexedPlan {
+  filename: string;
+  filepath: string;
+  content: string;
+  mtimeMs: number;
+}
+
+interface IndexedFile {
+  size: number;
+  mtimeMs: number;
+  offset: number; // Bytes consumed so far - appended lines start here
+  docIds: number[];
+  pendingToolUses: Record<string, string>; // tool_use id → name still awaiting its result
+}
+
+interface IndexSnapshot {
+  version: number;
+  nextDocId: number;
+  files: Record<string, IndexedFile>;
+  docs: IndexedDocument[];
+  postings: Record<string, number[]>;
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9_]+/)
+    .filter((token) => token.length >= 2 && token.length <= 40 && !STOP_WORDS.has(token));
+}
+
+// Three-valued so the index can defer what only the message text can answer
+type Match = 'yes' | 'no' | 'maybe';
+type QueryLeaf = Extract<QueryNode, { kind: 'term' | 'phrase' | 'field' }>;
+
+function evaluate(node: QueryNode, leaf: (node: QueryLeaf) => Match): Match {
+  switch (node.kind) {
+    case 'and': {
+      const results = node.children.map((child) => evaluate(child, leaf));
+      if (results.includes('no')) return 'no';
+      return results.includes('maybe') ? 'maybe' : 'yes';
+    }
+    case 'or': {
+      const results = node.children.map((child) => evaluate(child, leaf));
+      if (results.includes('yes')) return 'yes';
+      return results.includes('maybe') ? 'maybe' : 'no';
+    }
+    case 'not': {
+      const result = evaluate(node.child, leaf);
+      return result === 'maybe' ? 'maybe' : result === 'yes' ? 'no' : 'yes';
+    }
+    default:
+      return leaf(node);
+  }
+}
+
+// Every token the query refers to, including excluded terms and file/tool filter values
+function queryTokens(node: QueryNode): string[] {
+  switch (node.kind) {
+    case 'term':
+    case 'phrase':
+      return tokenize(node.value);
+    case 'field':
+      return node.field === 'file' || node.field === 'tool' ? tokenize(node.value) : [];
+    case 'and':
+    case 'or':
+      return node.children.flatMap(queryTokens);
+    case 'not':
+      return queryTokens(node.child);
+  }
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ');
+}
+
+export class HistoryIndex {
+  private parser: ConversationParser;
+  private indexPath: string;
+  private files: Map<string, IndexedFile> = new Map();
+  private docs: Map<number, IndexedDocument> = new Map();
+  // token → flattened [docId, ...tf per field in FIELDS order, docId, ...]
+  private postings: Map<string, number[]> = new Map();
+  private totalLengths: number[] = FIELDS.map(() => 0);
+  private nextDocId = 0;
+  private staleDocCount = 0;
+  private loaded: Promise<void> | null = null;
+  private refreshing: Promise<void> | null = null;
+  // Every mutation runs through this chain so watcher updates never interleave with a refresh
+  private queue: Promise<void> = Promise.resolve();
+  private live = false;
+  private plans: Map<string, IndexedPlan> = new Map();
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(indexPath: string = getHistorianIndexPath()) {
+    this.parser = new ConversationParser();
+    this.indexPath = indexPath;
+  }
+
+  get documentCount(): number {
+    return this.docs.size;
+  }
+
+  // Bring the index up to date with ~/.claude/projects. Concurrent callers share one refresh.
+  async refresh(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.exclusive(() => this.performRefresh()).finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  // Cheap freshness check for queries: while a watcher keeps us live, only wait for queued updates
+  async ensureFresh(): Promise<void> {
+    if (this.live) return this.queue;
+    return this.refresh();
+  }
+
+  // Set by HistoryWatcher once it is reliably feeding file changes in
+  setLive(live: boolean): void {
+    this.live = live;
+  }
+
+  // Re-index specific session files ("projectDir/file.jsonl"), e.g. in response to watch events
+  async refreshFiles(keys: string[]): Promise<void> {
+    return this.exclusive(async () => {
+      await this.load();
+      await resolveRepoRoots([...new Set(keys.map((key) => key.split('/')[0]))]);
+
+      let changed = false;
+      for (const key of keys) {
+        const [projectDir, file] = key.split('/');
+
+        try {
+          const stats = await stat(join(getClaudeProjectsPath(), projectDir, file));
+          if (await this.updateFile(projectDir, file, stats.size, stats.mtimeMs)) {
+            changed = true;
+          }
+        } catch {
+          // Deleted (or renamed away) since the event fired
+          if (this.files.has(key)) {
+            this.removeFile(key);
+            changed = true;
+          }
+        }
+      }
+
+      if (changed) this.scheduleSave();
+    });
+  }
+
+  // Write out updates still waiting for their batched snapshot, e.g. before the process exits
+  async flush(): Promise<void> {
+    if (!this.saveTimer) return;
+    return this.exclusive(() => this.save());
+  }
+
+  // Plans are few and small, so they are cached in memory only and re-read when their mtime moves
+  async getPlans(): Promise<IndexedPlan[]> {
+    await this.refreshPlans();
+    return Array.from(this.plans.values());
+  }
+
+  async refreshPlans(): Promise<void> {
+    const plansPath = getClaudePlansPath();
+    const planFiles = await findPlanFiles();
+    const current = new Set(planFiles);
+
+    await Promise.allSettled(
+      planFiles.map(async (filename) => {
+        const filepath = join(plansPath, filename);
+        const stats = await stat(filepath);
+        if (this.plans.get(filename)?.mtimeMs === stats.mtimeMs) return;
+
+        const content = await readFile(filepath, 'utf-8');
+        this.plans.set(filename, { filename, filepath, content, mtimeMs: stats.mtimeMs });
+      })
+    );
+
+    for (const filename of Array.from(this.plans.keys())) {
+      if (!current.has(filename)) this.plans.delete(filename);
+    }
+  }
+
+  // Evaluate a parsed query against the index. Terms and metadata filters are answered from
+  // postings and documents alone; phrases and file paths are confirmed against the message text.
+  async search(query: QueryNode, options: IndexSearchOptions): Promise<IndexSearchResult> {
+    const excluded = options.includeThinking ? undefined : OPT_IN_FIELDS;
+    const stats: CorpusStats = { documentCount: this.docs.size, totalLengths: this.totalLengths };
+    const postings = this.queryPostings(query, excluded);
+
+    const rankingTokens = [...new Set(positiveText(query).flatMap(tokenize))];
+    const idf = new Map(
+      rankingTokens.map((token) => [
+        token,
+        inverseDocumentFrequency(stats.documentCount, postings.get(token)?.size || 0),
+      ])
+    );
+
+    const candidates = this.candidateIds(query, postings) ?? this.docs.keys();
+    const ranked: { hit: IndexHit; match: Match }[] = [];
+
+    for (const docId of candidates) {
+      const doc = this.docs.get(docId);
+      if (!doc) continue;
+      if (!matchesProjectFilter(doc.projectDir, options.projectFilter)) continue;
+      if (options.timeFilter && !options.timeFilter(doc.timestamp)) continue;
+
+      const match = evaluate(query, (leaf) => this.matchLeaf(leaf, doc, postings));
+      if (match === 'no') continue;
+
+      let score = 0;
+      for (const token of rankingTokens) {
+        const i = postings.get(token)?.get(docId);
+        if (i === undefined) continue;
+        const frequencies = this.postings.get(token)!.slice(i + 1, i + POSTING_STRIDE);
+        score += bm25fTermScore(idf.get(token)!, frequencies, doc.lengths, stats, excluded);
+      }
+
+      ranked.push({ hit: { doc, score }, match });
+    }
+
+    ranked.sort(
+      (a, b) => b.hit.score - a.hit.score || b.hit.doc.timestamp.localeCompare(a.hit.doc.timestamp)
+    );
+
+    // Phrase and path candidates are read only as deep as the ranking is asked for, so a later page
+    // confirms the ones after this one's and no match is out of the cursor's reach
+    const hits: IndexHit[] = [];
+    let rejected = 0;
+    for (const { hit, match } of ranked) {
+      if (hits.length >= options.limit) break;
+      if (match === 'maybe') {
+        if (!(await this.confirmMatch(query, hit.doc, postings, excluded))) {
+          rejected++;
+          continue;
+        }
+      }
+      hits.push(hit);
+    }
+
+    return { hits, total: ranked.length - rejected };
+  }
+
+  // Documents that can contain a literal substring, newest first (every document for null).
+  // Whole words inside the literal must be indexed tokens; a word touching either end may be
+  // cut off, so it only has to be part of one.
+  literalCandidates(
+    literal: string | null,
+    options: Omit<IndexSearchOptions, 'limit'> = {}
+  ): IndexedDocument[] {
+    const excluded = options.includeThinking ? undefined : OPT_IN_FIELDS;
+    const candidates = this.literalDocIds(literal, excluded) || this.docs.keys();
+
+    const docs: IndexedDocument[] = [];
+    for (const docId of candidates) {
+      const doc = this.docs.get(docId);
+      if (!doc) continue;
+      if (!matchesProjectFilter(doc.projectDir, options.projectFilter)) continue;
+      if (options.timeFilter && !options.timeFilter(doc.timestamp)) continue;
+      docs.push(doc);
+    }
+
+    return docs.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }
+
+  // Documents whose indexed words allow the literal, or null when no word in it constrains them
+  private literalDocIds(
+    literal: string | null,
+    excluded?: ReadonlySet<FieldName>
+  ): Set<number> | null {
+    const required: Set<number>[] = [];
+
+    const lowered = literal?.toLowerCase() || '';
+    for (const word of lowered.matchAll(/[a-z0-9_]+/g)) {
+      const text = word[0];
+      const openStart = word.index === 0;
+      const openEnd = word.index! + text.length === lowered.length;
+
+      // Too short or too common to be indexed on its own - no constraint
+      if (text.length < 2 || text.length > 40 || STOP_WORDS.has(text)) continue;
+
+      const tokens =
+        openStart || openEnd
+          ? Array.from(this.postings.keys()).filter((token) =>
+              openStart && openEnd
+                ? token.includes(text)
+                : openStart
+                  ? token.endsWith(text)
+                  : token.startsWith(text)
+            )
+          : [text];
+
+      const docIds = new Set<number>();
+      for (const token of tokens) {
+        for (const docId of this.liveEntries(token, excluded).keys()) docIds.add(docId);
+      }
+      required.push(docIds);
+    }
+
+    if (!required.length) return null;
+    const smallest = required.reduce((a, b) => (b.size < a.size ? b : a));
+    return new Set([...smallest].filter((id) => required.every((docIds) => docIds.has(id))));
+  }
+
+  // Every indexed session file, in no particular order
+  listSessions(): SessionLocation[] {
+    const sessions: SessionLocation[] = [];
+    for (const [key, record] of this.files) {
+      const [projectDir, file] = key.split('/');
+      sessions.push({
+        sessionId: file.replace('.jsonl', ''),
+        projectDir,
+        file,
+        mtimeMs: record.mtimeMs,
+        messageCount: record.docIds.length,
+      });
+    }
+    return sessions;
+  }
+
+  // Sessions with a message that passes the filter, most recently active first. Tools that read
+  // whole sessions use it to find every file that can matter without reading the rest.
+  activeSessions(filter: SessionFilter = {}): ActiveSession[] {
+    const allowed = filter.literal ? this.literalDocIds(filter.literal, OPT_IN_FIELDS) : null;
+
+    const sessions: ActiveSession[] = [];
+    for (const [key, record] of this.files) {
+      const [projectDir, file] = key.split('/');
+      if (!matchesProjectFilter(projectDir, filter.projectFilter)) continue;
+
+      let lastActivity = '';
+      for (const docId of record.docIds) {
+        const doc = this.docs.get(docId);
+        if (!doc || doc.timestamp <= lastActivity) continue;
+        if (filter.timeFilter && !filter.timeFilter(doc.timestamp)) continue;
+        if (!allowed || allowed.has(docId)) lastActivity = doc.timestamp;
+      }
+      if (!lastActivity) continue;
+
+      sessions.push({
+        sessionId: file.replace('.jsonl', ''),
+        projectDir,
+        file,
+        mtimeMs: record.mtimeMs,
+        messageCount: record.docIds.length,
+        lastActivity,
+      });
+    }
+
+    return sessions.sort(
+      (a, b) => b.lastActivity.localeCompare(a.lastActivity) || a.file.localeCompare(b.file)
+    );
+  }
+
+  // Resolve a session reference: "latest", a full session id, or a unique-enough prefix
+  findSessions(reference: string): SessionLocation[] {
+    const sessions = this.listSessions();
+
+    if (reference.toLowerCase() === 'latest') {
+      // Subagent transcripts (agent-*.jsonl) are not sessions the user worked in
+      const latest = sessions
+        .filter((session) => !session.sessionId.startsWith('agent-'))
+        .sort((a, b) => b.mtimeMs - a.mtimeMs)[0];
+      return latest ? [latest] : [];
+    }
+
+    const exact = sessions.filter((session) => session.sessionId === reference);
+    if (exact.length > 0) return exact;
+
+    return sessions.filter((session) => session.sessionId.startsWith(reference));
+  }
+
+  // When a session began (its earliest message), for since_session: timeframes
+  sessionStartTime(reference: string): string | undefined {
+    const sessions = this.findSessions(reference);
+    if (sessions.length !== 1) return undefined;
+
+    const { projectDir, file } = sessions[0];
+    const timestamps = (this.files.get(`${projectDir}/${file}`)?.docIds || [])
+      .map((docId) => this.docs.get(docId)?.timestamp)
+      .filter((timestamp): timestamp is string => !!timestamp)
+      .sort();
+    return timestamps[0];
+  }
+
+  // Every indexed message that reported token usage (duplicates per API response included)
+  usageRecords(options: Omit<IndexSearchOptions, 'limit'> = {}): UsageRecord[] {
+    const records: UsageRecord[] = [];
+
+    for (const doc of this.docs.values()) {
+      if (!doc.usage) continue;
+      if (!matchesProjectFilter(doc.projectDir, options.projectFilter)) continue;
+      if (options.timeFilter && !options.timeFilter(doc.timestamp)) continue;
+
+      records.push({
+        sessionId: doc.sessionId,
+        project: decodeProjectPath(doc.projectDir).split('/').pop() || doc.projectDir,
+        repo: getRepoRoot(doc.projectDir).split('/').pop() || doc.projectDir,
+        timestamp: doc.timestamp,
+        model: doc.model,
+        apiMessageId: doc.apiMessageId,
+        usage: doc.usage,
+      });
+    }
+
+    return records;
+  }
+
+  // Every tool whose result was indexed, most used first
+  toolNames(): string[] {
+    const counts = new Map<string, number>();
+    for (const doc of this.docs.values()) {
+      for (const name of Object.values(doc.toolResultNames || {})) {
+        counts.set(name, (counts.get(name) || 0) + 1);
+      }
+    }
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([name]) => name);
+  }
+
+  findMessage(uuid: string): IndexedDocument | undefined {
+    for (const doc of this.docs.values()) {
+      if (doc.uuid === uuid) return doc;
+    }
+    return undefined;
+  }
+
+  // Session files are named <sessionId>.jsonl; fall back to the documents for anything else
+  findSessionFile(sessionId: string): { projectDir: string; file: string } | null {
+    for (const key of this.files.keys()) {
+      const [projectDir, file] = key.split('/');
+      if (file === `${sessionId}.jsonl`) return { projectDir, file };
+    }
+
+    for (const doc of this.docs.values()) {
+      if (doc.sessionId === sessionId) return { projectDir: doc.projectDir, file: doc.file };
+    }
+
+    return null;
+  }
+
+  // Re-read the messages behind a set of hits straight from their JSONL byte ranges.
+  // Each message carries its BM25F score as relevanceScore.
+  async loadMessages(hits: IndexHit[]): Promise<CompactMessage[]> {
+    const loaded = await Promise.all(
+      hits.map(async (hit): Promise<CompactMessage | null> => {
+        const { projectDir, file, offset, length } = hit.doc;
+        const message = await this.parser.readMessageAt(projectDir, file, offset, length);
+        if (!message) return null;
+
+        const names = hit.doc.toolResultNames;
+        const toolResults = message.toolResults?.map((result) =>
+          names?.[result.toolUseId] ? { ...result, toolName: names[result.toolUseId] } : result
+        );
+        return { ...message, toolResults, relevanceScore: hit.score };
+      })
+    );
+
+    return loaded.filter((message): message is CompactMessage => message !== null);
+  }
+
+  private async performRefresh(): Promise<void> {
+    await this.load();
+
+    let changed = false;
+    const seen = new Set<string>();
+    const projectDirs = await findProjectDirectories();
+
+    // Unchanged files aren't re-parsed, so project paths and repositories are looked up here
+    await resolveRepoRoots(projectDirs);
+
+    for (const projectDir of projectDirs) {
+      const jsonlFiles = await findJsonlFiles(projectDir);
+
+      for (const file of jsonlFiles) {
+        const key = `${projectDir}/${file}`;
+        seen.add(key);
+
+        try {
+          const stats = await stat(join(getClaudeProjectsPath(), projectDir, file));
+          if (await this.updateFile(projectDir, file, stats.size, stats.mtimeMs)) {
+            changed = true;
+          }
+        } catch (error) {
+          console.error(`Error indexing ${key}:`, error);
+        }
+      }
+    }
+
+    // Sessions deleted from disk drop out of the index
+    for (const key of Array.from(this.files.keys())) {
+      if (!seen.has(key)) {
+        this.removeFile(key);
+        changed = true;
+      }
+    }
+
+    if (changed) await this.save();
+  }
+
+  private exclusive(task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  // Sessions are append-only: growth means parse from the stored offset, shrinkage means rewrite
+  private async updateFile(
+    projectDir: string,
+    file: string,
+    size: number,
+    mtimeMs: number
+  ): Promise<boolean> {
+    const key = `${projectDir}/${file}`;
+    let existing = this.files.get(key);
+
+    if (existing && existing.size === size && existing.mtimeMs === mtimeMs) {
+      return false;
+    }
+
+    if (existing && size < existing.offset) {
+      this.removeFile(key);
+      existing = undefined;
+    }
+
+    const record: IndexedFile = existing || {
+      size,
+      mtimeMs,
+      offset: 0,
+      docIds: [],
+      pendingToolUses: {},
+    };
+    record.size = size;
+    record.mtimeMs = mtimeMs;
+
+    if (size > record.offset) {
+      const toolNames = new Map(Object.entries(record.pendingToolUses));
+      const { messages, endOffset } = await this.parser.parseJsonlFileWithLocations(
+        projectDir,
+        file,
+        record.offset,
+        toolNames
+      );
+
+      for (const { message, offset, length } of messages) {
+        const id = this.nextDocId++;
+        const fieldTokens = this.fieldTexts(message).map(tokenize);
+        const lengths = fieldTokens.map((tokens) => tokens.length);
+
+        this.docs.set(id, {
+          id,
+          projectDir,
+          file,
+          offset,
+          length,
+          uuid: message.uuid,
+          sessionId: message.sessionId,
+          timestamp: message.timestamp,
+          type: message.type,
+          lengths,
+          model: message.model,
+          apiMessageId: message.apiMessageId,
+          usage: message.usage,
+        });
+        this.linkToolResults(this.docs.get(id)!, message);
+        this.addPostings(id, fieldTokens);
+        lengths.forEach((fieldLength, i) => (this.totalLengths[i] += fieldLength));
+        record.docIds.push(id);
+      }
+      record.offset = endOffset;
+      record.pendingToolUses = Object.fromEntries(toolNames);
+    }
+
+    this.files.set(key, record);
+    return true;
+  }
+
+  // Field texts in FIELDS order
+  private fieldTexts(message: CompactMessage): string[] {
+    const results = message.toolResults || [];
+    return [
+      message.content,
+      (message.context?.filesReferenced || []).join(' '),
+      [...(message.context?.toolsUsed || []), ...results.map((r) => r.toolName || '')].join(' '),
+      (message.context?.errorPatterns || []).join(' '),
+      results.map((r) => r.content).join('\n'),
+      message.thinking || '',
+    ];
+  }
+
+  // Posting entries for every token in the query, keyed docId → entry offset. Entries for
+  // removed documents and matches confined to excluded fields are left out, so these also feed IDF.
+  private queryPostings(
+    query: QueryNode,
+    excluded?: ReadonlySet<FieldName>
+  ): Map<string, Map<number, number>> {
+    const result = new Map<string, Map<number, number>>();
+    for (const token of new Set(queryTokens(query))) {
+      result.set(token, this.liveEntries(token, excluded));
+    }
+    return result;
+  }
+
+  private liveEntries(token: string, excluded?: ReadonlySet<FieldName>): Map<number, number> {
+    const entries = new Map<number, number>();
+    const posting = this.postings.get(token) || [];
+
+    for (let i = 0; i < posting.length; i += POSTING_STRIDE) {
+      if (!this.docs.has(posting[i])) continue;
+
+      const scoresAnyField = FIELDS.some(
+        (field, f) => posting[i + 1 + f] > 0 && !excluded?.has(field)
+      );
+      if (scoresAnyField) entries.set(posting[i], i);
+    }
+
+    return entries;
+  }
+
+  // Documents that can possibly match, or null when only a full scan will tell (e.g. type:user)
+  private candidateIds(
+    node: QueryNode,
+    postings: Map<string, Map<number, number>>
+  ): Iterable<number> | null {
+    switch (node.kind) {
+      case 'term':
+      case 'phrase':
+      case 'field': {
+        if (node.kind === 'field' && node.field !== 'file' && node.field !== 'tool') return null;
+
+        // Every token is required, so the rarest one bounds the set
+        const sets = tokenize(node.value).map((token) => postings.get(token)!);
+        if (sets.length === 0) return null;
+        return sets.reduce((a, b) => (b.size < a.size ? b : a)).keys();
+      }
+
+      case 'and': {
+        const sets = node.children
+          .map((child) => this.candidateIds(child, postings))
+          .filter((ids): ids is Iterable<number> => ids !== null)
+          .map((ids) => new Set(ids));
+        if (sets.length === 0) return null;
+        return sets.reduce((a, b) => (b.size < a.size ? b : a));
+      }
+
+      case 'or': {
+        const union = new Set<number>();
+        for (const child of node.children) {
+          const ids = this.candidateIds(child, postings);
+          if (ids === null) return null;
+          for (const id of ids) union.add(id);
+        }
+        return union;
+      }
+
+      case 'not':
+        return null;
+    }
+  }
+
+  private matchLeaf(
+    leaf: QueryLeaf,
+    doc: IndexedDocument,
+    postings: Map<string, Map<number, number>>
+  ): Match {
+    const has = (token: string, field?: FieldName): boolean => {
+      const i = postings.get(token)?.get(doc.id);
+      if (i === undefined) return false;
+      return !field || this.postings.get(token)![i + 1 + FIELDS.indexOf(field)] > 0;
+    };
+    const allTokens = (value: string, field?: FieldName): boolean =>
+      tokenize(value).every((token) => has(token, field));
+
+    if (leaf.kind === 'term') return allTokens(leaf.value) ? 'yes' : 'no';
+    if (leaf.kind === 'phrase') return allTokens(leaf.value) ? 'maybe' : 'no';
+
+    const value = leaf.value.toLowerCase();
+    const timestamp = Date.parse(doc.timestamp);
+    let matches: boolean;
+
+    switch (leaf.field) {
+      case 'file':
+        // Path tokens only say the parts occur - the path itself is checked against the message
+        return allTokens(leaf.value, 'files') ? 'maybe' : 'no';
+      case 'tool':
+        matches = tokenize(leaf.value).length > 0 && allTokens(leaf.value, 'tools');
+        break;
+      case 'type':
+        // Tool calls and their output live inside assistant and user messages, not as messages
+        // of their own - so those two types ask for the message carrying them
+        if (value === 'tool_use') {
+          matches = doc.type === 'assistant' && doc.lengths[FIELDS.indexOf('tools')] > 0;
+        } else if (value === 'tool_result') {
+          matches = doc.lengths[FIELDS.indexOf('results')] > 0 || !!doc.toolResultNames;
+        } else {
+          matches = doc.type === value;
+        }
+        break;
+      case 'project':
+        matches =
+          doc.projectDir.toLowerCase().includes(value) ||
+          decodeProjectPath(doc.projectDir).toLowerCase().includes(value);
+        break;
+      case 'model':
+        matches = !!doc.model?.toLowerCase().includes(value);
+        break;
+      case 'session':
+        matches = doc.sessionId.toLowerCase().startsWith(value);
+        break;
+      case 'before':
+        matches = timestamp < Date.parse(leaf.value);
+        break;
+      case 'after':
+        matches = timestamp >= Date.parse(leaf.value);
+        break;
+    }
+
+    return matches ? 'yes' : 'no';
+  }
+
+  // Settle a possible match by reading the message: phrases must appear verbatim, paths as written
+  private async confirmMatch(
+    query: QueryNode,
+    doc: IndexedDocument,
+    postings: Map<string, Map<number, number>>,
+    excluded?: ReadonlySet<FieldName>
+  ): Promise<boolean> {
+    const message = await this.parser.readMessageAt(
+      doc.projectDir,
+      doc.file,
+      doc.offset,
+      doc.length
+    );
+    if (!message) return false;
+
+    const text = normalizeWhitespace(
+      this.fieldTexts(message)
+        .filter((_text, f) => !excluded?.has(FIELDS[f]))
+        .join('\n')
+    );
+    const files = (message.context?.filesReferenced || []).map((file) => file.toLowerCase());
+
+    const match = evaluate(query, (leaf) => {
+      if (leaf.kind === 'phrase') {
+        return text.includes(normalizeWhitespace(leaf.value)) ? 'yes' : 'no';
+      }
+      if (leaf.kind === 'field' && leaf.field === 'file') {
+        const path = leaf.value.toLowerCase();
+        return files.some((file) => file.includes(path)) ? 'yes' : 'no';
+      }
+      return this.matchLeaf(leaf, doc, postings);
+    });
+
+    return match === 'yes';
+  }
+
+  // readMessageAt sees a single line, so remember which tool each result came from
+  private linkToolResults(doc: IndexedDocument, message: CompactMessage): void {
+    for (const result of message.toolResults || []) {
+      if (!result.toolName) continue;
+      doc.toolResultNames = { ...doc.toolResultNames, [result.toolUseId]: result.toolName };
+    }
+  }
+
+  private addPostings(docId: number, fieldTokens: string[][]): void {
+    const frequencies = new Map<string, number[]>();
+    fieldTokens.forEach((tokens, field) => {
+      for (const token of tokens) {
+        let entry = frequencies.get(token);
+        if (!entry) {
+          entry = FIELDS.map(() => 0);
+          frequencies.set(token, entry);
+        }
+        entry[field]++;
+      }
+    });
+
+    for (const [token, entry] of frequencies) {
+      let posting = this.postings.get(token);
+      if (!posting) {
+        posting = [];
+        this.postings.set(token, posting);
+      }
+      posting.push(docId, ...entry);
+    }
+  }
+
+  private removeFile(key: string): void {
+    const existing = this.files.get(key);
+    if (!existing) return;
+
+    // Postings are cleaned lazily in compact() - search() skips ids that no longer resolve
+    for (const docId of existing.docIds) {
+      const doc = this.docs.get(docId);
+      if (!doc) continue;
+
+      doc.lengths.forEach((fieldLength, i) => (this.totalLengths[i] -= fieldLength));
+      this.docs.delete(docId);
+    }
+    this.staleDocCount += existing.docIds.length;
+    this.files.delete(key);
+  }
+
+  private compact(): void {
+    for (const [token, posting] of this.postings) {
+      const live: number[] = [];
+      for (let i = 0; i < posting.length; i += POSTING_STRIDE) {
+        if (this.docs.has(posting[i])) live.push(...posting.slice(i, i + POSTING_STRIDE));
+      }
+
+      if (live.length > 0) {
+        this.postings.set(token, live);
+      } else {
+        this.postings.delete(token);
+      }
+    }
+    this.staleDocCount = 0;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.readSnapshot();
+    }
+    return this.loaded;
+  }
+
+  private async readSnapshot(): Promise<void> {
+    try {
+      const raw = await readFile(join(this.indexPath, INDEX_FILENAME), 'utf-8');
+      const snapshot: IndexSnapshot = JSON.parse(raw);
+
+      // Format changed - rebuild from scratch rather than misreading old data
+      if (snapshot.version !== INDEX_VERSION) return;
+
+      this.files = new Map(Object.entries(snapshot.files));
+      this.docs = new Map(snapshot.docs.map((doc) => [doc.id, doc]));
+      this.postings = new Map(Object.entries(snapshot.postings));
+      this.nextDocId = snapshot.nextDocId;
+
+      // Field length totals are derived data - recompute rather than persist
+      this.totalLengths = FIELDS.map(() => 0);
+      for (const doc of this.docs.values()) {
+        doc.lengths.forEach((fieldLength, i) => (this.totalLengths[i] += fieldLength));
+      }
+    } catch {
+      // No index yet (or unreadable) - the next refresh builds it
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.exclusive(() => this.save()).catch(() => undefined);
+    }, SAVE_INTERVAL_MS);
+    // An idle server shouldn't stay up just to write a snapshot
+    this.saveTimer.unref();
+  }
+
+  private async save(): Promise<void> {
+    if (this.saveTimer) clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+
+    if (this.staleDocCount > this.docs.size / 4) {
+      this.compact();
+    }
+
+    const snapshot: IndexSnapshot = {
+      version: INDEX_VERSION,
+      nextDocId: this.nextDocId,
+      files: Object.fromEntries(this.files),
+      docs: Array.from(this.docs.values()),
+      postings: Object.fromEntries(this.postings),
+    };
+
+    try {
+      await mkdir(this.indexPath, { recursive: true });
+
+      // Write-then-rename so a crash never leaves a half-written index behind
+      const target = join(this.indexPath, INDEX_FILENAME);
+      const temp = `${target}.${process.pid}.tmp`;
+      await writeFile(temp, JSON.stringify(snapshot));
+      await rename(temp, target);
+    } catch (error) {
+      // The in-memory index still works; it just has to be rebuilt next start
+      console.error('Error saving history index:', error);
+    }
+  }
+}
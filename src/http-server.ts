@@ -0,0 +1,211 @@
+// Streamable HTTP transport: one long-running historian that several clients connect to.
+// Every MCP session gets its own protocol Server; they all share the caller's engines and index.
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'http';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export const MCP_PATH = '/mcp';
+// JSON-RPC requests are small - anything bigger is not a client we know
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '::1'];
+
+// Clients that go away without a DELETE leave their sessions open: ones idle this long are closed,
+// and at MAX_SESSIONS the least recently used idle one makes room for a new one
+const SESSION_IDLE_MS = 30 * 60_000;
+const MAX_SESSIONS = 100;
+const SWEEP_INTERVAL_MS = 60_000;
+
+interface McpSession {
+  transport: StreamableHTTPServerTransport;
+  lastSeen: number;
+  requests: number; // In flight, open GET streams included - a busy session is never closed
+}
+
+export interface HttpServerOptions {
+  port: number;
+  host: string;
+  token?: string; // Required as "Authorization: Bearer <token>" when set
+}
+
+export function serverUrl(options: HttpServerOptions): string {
+  const host = options.host.includes(':') ? `[${options.host}]` : options.host;
+  return `http://${host}:${options.port}${MCP_PATH}`;
+}
+
+function sendError(res: ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+// Compared as digests so neither the length nor the content leaks through timing
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization || '';
+  const presented = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+  const digest = (value: string): Buffer => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(presented), digest(token));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new RangeError('request body too large');
+    chunks.push(chunk);
+  }
+
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+}
+
+export async function startHttpServer(
+  createMcpServer: () => Server,
+  options: HttpServerOptions
+): Promise<HttpServer> {
+  const sessions = new Map<string, McpSession>(); // Least recently used first
+  const loopback = LOOPBACK_HOSTS.includes(options.host);
+  // Pages on other sites can reach localhost through DNS rebinding - only accept our own Host
+  const allowedHosts = loopback
+    ? [`127.0.0.1:${options.port}`, `localhost:${options.port}`, `[::1]:${options.port}`]
+    : undefined;
+
+  const openSession = async (): Promise<StreamableHTTPServerTransport> => {
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: (): string => randomUUID(),
+      onsessioninitialized: (sessionId): void => {
+        sessions.set(sessionId, { transport, lastSeen: Date.now(), requests: 0 });
+      },
+      enableDnsRebindingProtection: loopback,
+      allowedHosts,
+    });
+    // Set before connect() so the server's own close handling is chained after ours
+    transport.onclose = (): void => {
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+    };
+
+    await createMcpServer().connect(transport);
+    return transport;
+  };
+
+  const closeSession = (sessionId: string, session: McpSession): void => {
+    sessions.delete(sessionId);
+    session.transport.close().catch((error) => console.error('Closing MCP session failed:', error));
+  };
+
+  // False when every open session is busy
+  const makeRoom = (): boolean => {
+    if (sessions.size < MAX_SESSIONS) return true;
+    for (const [sessionId, session] of sessions) {
+      if (session.requests === 0) {
+        closeSession(sessionId, session);
+        return true;
+      }
+    }
+    return false;
+  };
+
+  // Marks the session used - moved to the back of the map - until the response is done
+  const track = (sessionId: string, session: McpSession, res: ServerResponse): void => {
+    sessions.delete(sessionId);
+    sessions.set(sessionId, session);
+    session.requests++;
+    session.lastSeen = Date.now();
+    res.once('close', () => {
+      session.requests--;
+      session.lastSeen = Date.now();
+    });
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+    if (path !== MCP_PATH) {
+      sendError(res, 404, -32000, `Not found - the MCP endpoint is ${MCP_PATH}`);
+      return;
+    }
+
+    if (options.token && !isAuthorized(req, options.token)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendError(res, 401, -32000, 'Unauthorized - missing or wrong bearer token');
+      return;
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    const session = typeof sessionId === 'string' ? sessions.get(sessionId) : undefined;
+    if (sessionId !== undefined && !session) {
+      sendError(res, 404, -32001, 'Session not found - initialize a new session');
+      return;
+    }
+    if (typeof sessionId === 'string' && session) track(sessionId, session, res);
+    const existing = session?.transport;
+
+    if (req.method === 'POST') {
+      let body: unknown;
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        if (error instanceof RangeError) {
+          sendError(res, 413, -32600, 'Request body too large');
+        } else {
+          sendError(res, 400, -32700, 'Parse error - body must be JSON');
+        }
+        return;
+      }
+
+      if (existing) {
+        await existing.handleRequest(req, res, body);
+      } else if (isInitializeRequest(body)) {
+        if (!makeRoom()) {
+          sendError(res, 503, -32000, 'Too many open sessions - try again later');
+          return;
+        }
+        const transport = await openSession();
+        await transport.handleRequest(req, res, body);
+      } else {
+        sendError(res, 400, -32000, 'Bad request - send initialize first, then mcp-session-id');
+      }
+      return;
+    }
+
+    if (req.method === 'GET' || req.method === 'DELETE') {
+      if (!existing) {
+        sendError(res, 400, -32000, 'Bad request - mcp-session-id header required');
+        return;
+      }
+      await existing.handleRequest(req, res);
+      return;
+    }
+
+    res.setHeader('Allow', 'GET, POST, DELETE');
+    sendError(res, 405, -32000, 'Method not allowed');
+  };
+
+  const httpServer = createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      console.error('HTTP request error:', error);
+      if (!res.headersSent) sendError(res, 500, -32603, 'Internal error');
+      else res.end();
+    });
+  });
+
+  const sweep = setInterval(() => {
+    const idleSince = Date.now() - SESSION_IDLE_MS;
+    for (const [sessionId, session] of sessions) {
+      if (session.requests === 0 && session.lastSeen < idleSince) closeSession(sessionId, session);
+    }
+  }, SWEEP_INTERVAL_MS);
+  sweep.unref();
+  httpServer.on('close', () => clearInterval(sweep));
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  return httpServer;
+}
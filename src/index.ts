@@ -4,22 +4,620 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  CompleteRequestSchema,
   ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   McpError,
+  ProgressToken,
+  ReadResourceRequestSchema,
+  ServerNotification,
+  ServerRequest,
+  Tool,
 } from '@modelcontextprotocol/sdk/types.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
 import { HistorySearchEngine } from './search.js';
 import { BeautifulFormatter } from './formatter.js';
 import { UniversalHistorySearchEngine } from './universal-engine.js';
+import { HistoryIndex } from './history-index.js';
+import { HistoryWatcher } from './watcher.js';
+import { OutputFormat, ScanOptions, SearchMode, UsageGroupBy } from './types.js';
+import { QuerySyntaxError } from './query-parser.js';
+import { TimeframeError } from './utils.js';
+import {
+  SEARCH_CONVERSATIONS_OUTPUT,
+  FIND_FILE_CONTEXT_OUTPUT,
+  FIND_SIMILAR_QUERIES_OUTPUT,
+  GET_ERROR_SOLUTIONS_OUTPUT,
+  LIST_RECENT_SESSIONS_OUTPUT,
+  EXTRACT_COMPACT_SUMMARY_OUTPUT,
+  GET_SESSION_TRANSCRIPT_OUTPUT,
+  GET_MESSAGE_CONTEXT_OUTPUT,
+  GET_USAGE_STATS_OUTPUT,
+  FIND_TOOL_PATTERNS_OUTPUT,
+  SEARCH_PLANS_OUTPUT,
+} from './output-schemas.js';
+import { ArgumentError, JsonSchema, validateArguments } from './validation.js';
+import {
+  CursorError,
+  MAX_PAGE_SIZE,
+  cursorAfter,
+  openPage,
+  paginate,
+  paginateScan,
+  rankingDepth,
+} from './pagination.js';
+import { HttpServerOptions, serverUrl, startHttpServer } from './http-server.js';
+import { DEFAULT_MAX_TOKENS, MIN_MAX_TOKENS } from './token-budget.js';
+
+const TIMEFRAME_DESCRIPTION =
+  'Time range: today, yesterday, week, month, a duration (6h, 3d, 2w), a date (2026-03-01), a range (2026-03-01..2026-03-15) or since_session:<id>';
+
+const CURSOR_DESCRIPTION =
+  'next_cursor from a previous call with the same arguments, to fetch the following page';
+
+const MAX_TOKENS_PROPERTY = {
+  type: 'integer',
+  minimum: MIN_MAX_TOKENS,
+  description: `Response budget in tokens (default: ${DEFAULT_MAX_TOKENS}). The best results are packed in first; anything left out or shortened is reported under budget`,
+  default: DEFAULT_MAX_TOKENS,
+};
+
+const OUTPUT_FORMAT_PROPERTY = {
+  type: 'string',
+  description:
+    'How the text result is printed: json (default, indented), markdown (tables, quoted dialogue, fenced code) or compact (JSON on one line). structuredContent is JSON either way',
+  enum: ['json', 'markdown', 'compact'],
+  default: 'json',
+};
+
+// resources/list offers this many recent sessions; older ones stay reachable by template
+const RECENT_SESSION_RESOURCES = 50;
+
+// historian://session/{id}, historian://project/{name}/sessions, historian://plan/{name}
+function parseResourceUri(
+  uri: string
+): { kind: 'session' | 'project' | 'plan'; name: string } | null {
+  const match =
+    uri.match(/^historian:\/\/(session|plan)\/([^/]+)$/) ||
+    uri.match(/^historian:\/\/(project)\/([^/]+)\/sessions$/);
+  if (!match) return null;
+
+  try {
+    return { kind: match[1] as 'session' | 'project' | 'plan', name: decodeURIComponent(match[2]) };
+  } catch {
+    return null; // Malformed percent-encoding
+  }
+}
+
+const TOOLS: Tool[] = [
+  {
+    name: 'search_conversations',
+    description: 'Search through Claude Code conversation history with smart insights',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          minLength: 1,
+          description:
+            'Search query. Supports "phrases", AND/OR/NOT, -term and filters: file:, tool:, type:, project:, model:, before:, after:, session:',
+        },
+        project: {
+          type: 'string',
+          description:
+            'Optional project name to filter results (a repository name includes all its worktrees)',
+        },
+        timeframe: {
+          type: 'string',
+          description: TIMEFRAME_DESCRIPTION,
+        },
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          maximum: MAX_PAGE_SIZE,
+          description: 'Results per page (default: 10)',
+          default: 10,
+        },
+        cursor: {
+          type: 'string',
+          description: CURSOR_DESCRIPTION,
+        },
+        detail_level: {
+          type: 'string',
+          description: 'Response detail: summary (default), detailed, raw',
+          enum: ['summary', 'detailed', 'raw'],
+          default: 'summary',
+        },
+        include_thinking: {
+          type: 'boolean',
+          description: 'Also search and show assistant thinking blocks (default: false)',
+          default: false,
+        },
+        include_thread: {
+          type: 'boolean',
+          description:
+            'Attach the prompt each result answers and its direct replies (default: false)',
+          default: false,
+        },
+        mode: {
+          type: 'string',
+          description:
+            'smart (default): ranked search with query syntax. exact: case-sensitive literal substring. regex: JavaScript pattern, optionally /pattern/flags. exact and regex return every match, newest first, with offsets',
+          enum: ['smart', 'exact', 'regex'],
+          default: 'smart',
+        },
+        max_tokens: MAX_TOKENS_PROPERTY,
+        output_format: OUTPUT_FORMAT_PROPERTY,
+      },
+      required: ['query'],
+    },
+    outputSchema: SEARCH_CONVERSATIONS_OUTPUT,
+  },
+  {
+    name: 'find_file_context',
+    description: 'Find all conversations and changes related to a specific file',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        filepath: {
+          type: 'string',
+          minLength: 1,
+          description: 'File path to search for in conversation history',
+        },
+        operation_type: {
+          type: 'string',
+          description: 'Filter by operation: read, edit, create, or all',
+          enum: ['read', 'edit', 'create', 'all'],
+          default: 'all',
+        },
+        timeframe: {
+          type: 'string',
+          description: TIMEFRAME_DESCRIPTION,
+        },
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          maximum: MAX_PAGE_SIZE,
+          description: 'Results per page (default: 15)',
+          default: 15,
+        },
+        cursor: {
+          type: 'string',
+          description: CURSOR_DESCRIPTION,
+        },
+        detail_level: {
+          type: 'string',
+          description: 'Response detail: summary (default), detailed, raw',
+          enum: ['summary', 'detailed', 'raw'],
+          default: 'summary',
+        },
+        max_tokens: MAX_TOKENS_PROPERTY,
+        output_format: OUTPUT_FORMAT_PROPERTY,
+      },
+      required: ['filepath'],
+    },
+    outputSchema: FIND_FILE_CONTEXT_OUTPUT,
+  },
+  {
+    name: 'find_similar_queries',
+    description: 'Find previous similar questions or queries with enhanced matching',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          minLength: 1,
+          description: 'Query to find similar previous questions',
+        },
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          maximum: MAX_PAGE_SIZE,
+          description: 'Results per page (default: 8)',
+          default: 8,
+        },
+        cursor: {
+          type: 'string',
+          description: CURSOR_DESCRIPTION,
+        },
+        detail_level: {
+          type: 'string',
+          description: 'Response detail: summary (default), detailed, raw',
+          enum: ['summary', 'detailed', 'raw'],
+          default: 'summary',
+        },
+        max_tokens: MAX_TOKENS_PROPERTY,
+        output_format: OUTPUT_FORMAT_PROPERTY,
+      },
+      required: ['query'],
+    },
+    outputSchema: FIND_SIMILAR_QUERIES_OUTPUT,
+  },
+  {
+    name: 'get_error_solutions',
+    description: 'Find solutions for specific errors with enhanced matching',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        error_pattern: {
+          type: 'string',
+          minLength: 1,
+          description: 'Error message or pattern to search for solutions',
+        },
+        timeframe: {
+          type: 'string',
+          description: TIMEFRAME_DESCRIPTION,
+        },
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          maximum: MAX_PAGE_SIZE,
+          description: 'Results per page (default: 8)',
+          default: 8,
+        },
+        cursor: {
+          type: 'string',
+          description: CURSOR_DESCRIPTION,
+        },
+        detail_level: {
+          type: 'string',
+          description: 'Response detail: summary (default), detailed, raw',
+          enum: ['summary', 'detailed', 'raw'],
+          default: 'summary',
+        },
+        max_tokens: MAX_TOKENS_PROPERTY,
+        output_format: OUTPUT_FORMAT_PROPERTY,
+      },
+      required: ['error_pattern'],
+    },
+    outputSchema: GET_ERROR_SOLUTIONS_OUTPUT,
+  },
+  {
+    name: 'list_recent_sessions',
+    description: 'Browse recent sessions with smart activity detection and summaries',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        timeframe: {
+          type: 'string',
+          description: TIMEFRAME_DESCRIPTION,
+        },
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          maximum: MAX_PAGE_SIZE,
+          description: 'Sessions per page (default: 10)',
+          default: 10,
+        },
+        cursor: {
+          type: 'string',
+          description: CURSOR_DESCRIPTION,
+        },
+        project: {
+          type: 'string',
+          description:
+            'Optional project name to filter sessions (a repository name includes all its worktrees)',
+        },
+        include_summary: {
+          type: 'boolean',
+          description: 'Include intelligent session summaries (default: true)',
+          default: true,
+        },
+        max_tokens: MAX_TOKENS_PROPERTY,
+        output_format: OUTPUT_FORMAT_PROPERTY,
+      },
+    },
+    outputSchema: LIST_RECENT_SESSIONS_OUTPUT,
+  },
+  {
+    name: 'extract_compact_summary',
+    description: 'Get intelligent summary of a conversation session with key insights',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_id: {
+          type: 'string',
+          minLength: 1,
+          description: 'Session ID to summarize',
+        },
+        max_messages: {
+          type: 'integer',
+          minimum: 1,
+          description: 'Maximum messages to analyze (default: 10)',
+          default: 10,
+        },
+        focus: {
+          type: 'string',
+          description: 'Focus area: solutions, tools, files, or all',
+          enum: ['solutions', 'tools', 'files', 'all'],
+          default: 'all',
+        },
+        max_tokens: MAX_TOKENS_PROPERTY,
+        output_format: OUTPUT_FORMAT_PROPERTY,
+      },
+      required: ['session_id'],
+    },
+    outputSchema: EXTRACT_COMPACT_SUMMARY_OUTPUT,
+  },
+  {
+    name: 'get_session_transcript',
+    description:
+      'Read the actual messages of a session in order, paged to stay within context limits',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_id: {
+          type: 'string',
+          minLength: 1,
+          description: 'Session ID, unique ID prefix, or "latest"',
+        },
+        offset: {
+          type: 'integer',
+          minimum: 0,
+          description: 'Index of the first message to return (default: 0)',
+          default: 0,
+        },
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          maximum: 200,
+          description: 'Maximum messages per page (default: 50, max: 200)',
+          default: 50,
+        },
+        cursor: {
+          type: 'string',
+          description: CURSOR_DESCRIPTION,
+        },
+        anchor_uuid: {
+          type: 'string',
+          description: 'Start the page at this message uuid instead of at offset',
+        },
+        roles: {
+          type: 'array',
+          items: { type: 'string', enum: ['user', 'assistant'] },
+          description: 'Only include messages from these roles (default: both)',
+        },
+        include_tools: {
+          type: 'boolean',
+          description: 'Include tool calls and tool output (default: false)',
+          default: false,
+        },
+        max_tokens: MAX_TOKENS_PROPERTY,
+        output_format: OUTPUT_FORMAT_PROPERTY,
+      },
+      required: ['session_id'],
+      not: { required: ['offset', 'anchor_uuid'] },
+    },
+    outputSchema: GET_SESSION_TRANSCRIPT_OUTPUT,
+  },
+  {
+    name: 'get_message_context',
+    description:
+      'Expand a search result into the surrounding discussion: messages before and after a uuid',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        uuid: {
+          type: 'string',
+          minLength: 1,
+          description: 'Message uuid (from search_conversations or get_session_transcript)',
+        },
+        before: {
+          type: 'integer',
+          minimum: 0,
+          maximum: 50,
+          description: 'Messages to include before the anchor (default: 5)',
+          default: 5,
+        },
+        after: {
+          type: 'integer',
+          minimum: 0,
+          maximum: 50,
+          description: 'Messages to include after the anchor (default: 5)',
+          default: 5,
+        },
+        include_tools: {
+          type: 'boolean',
+          description: 'Include tool calls and tool output (default: false)',
+          default: false,
+        },
+        max_tokens: MAX_TOKENS_PROPERTY,
+        output_format: OUTPUT_FORMAT_PROPERTY,
+      },
+      required: ['uuid'],
+    },
+    outputSchema: GET_MESSAGE_CONTEXT_OUTPUT,
+  },
+  {
+    name: 'get_usage_stats',
+    description: 'Token usage and estimated cost by session, project, repo, model, day or week',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        group_by: {
+          type: 'string',
+          description: 'How to group usage (default: project)',
+          enum: ['session', 'project', 'repo', 'model', 'day', 'week'],
+          default: 'project',
+        },
+        project: {
+          type: 'string',
+          description:
+            'Optional project name to filter usage (a repository name includes all its worktrees)',
+        },
+        timeframe: {
+          type: 'string',
+          description: TIMEFRAME_DESCRIPTION,
+        },
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          maximum: MAX_PAGE_SIZE,
+          description: 'Groups per page (default: 20)',
+          default: 20,
+        },
+        cursor: {
+          type: 'string',
+          description: CURSOR_DESCRIPTION,
+        },
+        max_tokens: MAX_TOKENS_PROPERTY,
+        output_format: OUTPUT_FORMAT_PROPERTY,
+      },
+    },
+    outputSchema: GET_USAGE_STATS_OUTPUT,
+  },
+  {
+    name: 'find_tool_patterns',
+    description: 'Analyze tool usage patterns, workflows, and successful practices',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        tool_name: {
+          type: 'string',
+          description: 'Optional specific tool name to analyze',
+        },
+        pattern_type: {
+          type: 'string',
+          description: 'Type of patterns: tools, workflows, or solutions',
+          enum: ['tools', 'workflows', 'solutions'],
+          default: 'tools',
+        },
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          maximum: MAX_PAGE_SIZE,
+          description: 'Patterns per page (default: 12)',
+          default: 12,
+        },
+        cursor: {
+          type: 'string',
+          description: CURSOR_DESCRIPTION,
+        },
+        max_tokens: MAX_TOKENS_PROPERTY,
+        output_format: OUTPUT_FORMAT_PROPERTY,
+      },
+    },
+    outputSchema: FIND_TOOL_PATTERNS_OUTPUT,
+  },
+  {
+    name: 'search_plans',
+    description:
+      'Search Claude Code plan files for past implementation approaches, decisions, and patterns',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          minLength: 1,
+          description: 'Search query for plan content',
+        },
+        timeframe: {
+          type: 'string',
+          description: TIMEFRAME_DESCRIPTION,
+        },
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          maximum: MAX_PAGE_SIZE,
+          description: 'Results per page (default: 10)',
+          default: 10,
+        },
+        cursor: {
+          type: 'string',
+          description: CURSOR_DESCRIPTION,
+        },
+        detail_level: {
+          type: 'string',
+          description: 'Response detail level',
+          enum: ['summary', 'detailed', 'raw'],
+          default: 'summary',
+        },
+        max_tokens: MAX_TOKENS_PROPERTY,
+        output_format: OUTPUT_FORMAT_PROPERTY,
+      },
+      required: ['query'],
+    },
+    outputSchema: SEARCH_PLANS_OUTPUT,
+  },
+];
+
+// What completion/complete suggests for an argument. Prompt arguments go by name; resource
+// template variables by the template they belong to.
+type CompletionKind = 'project' | 'tool' | 'session' | 'plan';
+
+const ARGUMENT_COMPLETIONS: Record<string, CompletionKind> = {
+  project: 'project',
+  tool: 'tool',
+};
+
+const TEMPLATE_COMPLETIONS: Record<string, CompletionKind> = {
+  'historian://session/{id}': 'session',
+  'historian://project/{name}/sessions': 'project',
+  'historian://plan/{name}': 'plan',
+};
+
+// Scanning tools read every indexed session that can match, and what they keep depends on how
+// many results they are asked for - so they rank everything and every page slices that ranking
+const WHOLE_RANKING = Infinity;
+
+// The protocol caps a completion response at 100 values
+const MAX_COMPLETIONS = 100;
+
+// One-click workflows: each prompt embeds the relevant history so the model starts with it
+const PROMPTS = [
+  {
+    name: 'resume_project',
+    description: 'Resume where I left off in a project',
+    arguments: [{ name: 'project', description: 'Project or repository name', required: true }],
+  },
+  {
+    name: 'seen_error_before',
+    description: 'Have I seen this error before, and how was it fixed?',
+    arguments: [{ name: 'error', description: 'Error message or pattern', required: true }],
+  },
+  {
+    name: 'past_decision',
+    description: 'What did we decide about a topic?',
+    arguments: [{ name: 'topic', description: 'Feature, design or question', required: true }],
+  },
+  {
+    name: 'tool_workflows',
+    description: 'How do I usually work with a tool?',
+    arguments: [{ name: 'tool', description: 'Tool name, e.g. Edit or Bash', required: true }],
+  },
+  {
+    name: 'summarize_week',
+    description: "Summarise this week's work",
+    arguments: [
+      { name: 'project', description: 'Limit to one project (default: all)', required: false },
+    ],
+  },
+];
 
 class ClaudeHistorianServer {
-  private server: Server;
   private searchEngine: HistorySearchEngine;
   private universalEngine: UniversalHistorySearchEngine;
+  private index: HistoryIndex;
+  private watcher: HistoryWatcher;
   private formatter: BeautifulFormatter;
 
   constructor() {
-    this.server = new Server(
+    // One on-disk index shared by both engines
+    this.index = new HistoryIndex();
+    this.searchEngine = new HistorySearchEngine(this.index);
+    this.universalEngine = new UniversalHistorySearchEngine(this.index);
+    this.watcher = new HistoryWatcher(this.index);
+    this.formatter = new BeautifulFormatter();
+  }
+
+  // A protocol server per connection - stdio has one, HTTP has one per session - all backed by
+  // the same engines and index
+  private createServer(): Server {
+    const server = new Server(
       {
         name: 'claude-historian',
         version: '1.0.0',
@@ -27,328 +625,176 @@ class ClaudeHistorianServer {
       {
         capabilities: {
           tools: {},
+          resources: {},
+          prompts: {},
+          completions: {},
         },
       }
     );
 
-    this.searchEngine = new HistorySearchEngine();
-    this.universalEngine = new UniversalHistorySearchEngine();
-    this.formatter = new BeautifulFormatter();
-    this.setupToolHandlers();
+    this.setupToolHandlers(server);
+    this.setupResourceHandlers(server);
+    this.setupPromptHandlers(server);
+    this.setupCompletionHandlers(server);
+    return server;
   }
 
-  private setupToolHandlers(): void {
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      return {
-        tools: [
-          {
-            name: 'search_conversations',
-            description: 'Search through Claude Code conversation history with smart insights',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                query: {
-                  type: 'string',
-                  description: 'Search query to find relevant conversations',
-                },
-                project: {
-                  type: 'string',
-                  description: 'Optional project name to filter results',
-                },
-                timeframe: {
-                  type: 'string',
-                  description: 'Time range filter (today, week, month)',
-                },
-                limit: {
-                  type: 'number',
-                  description: 'Maximum number of results (default: 10)',
-                  default: 10,
-                },
-                detail_level: {
-                  type: 'string',
-                  description: 'Response detail: summary (default), detailed, raw',
-                  enum: ['summary', 'detailed', 'raw'],
-                  default: 'summary',
-                },
-              },
-              required: ['query'],
-            },
-          },
-          {
-            name: 'find_file_context',
-            description: 'Find all conversations and changes related to a specific file',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                filepath: {
-                  type: 'string',
-                  description: 'File path to search for in conversation history',
-                },
-                operation_type: {
-                  type: 'string',
-                  description: 'Filter by operation: read, edit, create, or all',
-                  enum: ['read', 'edit', 'create', 'all'],
-                  default: 'all',
-                },
-                limit: {
-                  type: 'number',
-                  description: 'Maximum number of results (default: 15)',
-                  default: 15,
-                },
-                detail_level: {
-                  type: 'string',
-                  description: 'Response detail: summary (default), detailed, raw',
-                  enum: ['summary', 'detailed', 'raw'],
-                  default: 'summary',
-                },
-              },
-              required: ['filepath'],
-            },
-          },
-          {
-            name: 'find_similar_queries',
-            description: 'Find previous similar questions or queries with enhanced matching',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                query: {
-                  type: 'string',
-                  description: 'Query to find similar previous questions',
-                },
-                limit: {
-                  type: 'number',
-                  description: 'Maximum number of results (default: 8)',
-                  default: 8,
-                },
-                detail_level: {
-                  type: 'string',
-                  description: 'Response detail: summary (default), detailed, raw',
-                  enum: ['summary', 'detailed', 'raw'],
-                  default: 'summary',
-                },
-              },
-              required: ['query'],
-            },
-          },
-          {
-            name: 'get_error_solutions',
-            description: 'Find solutions for specific errors with enhanced matching',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                error_pattern: {
-                  type: 'string',
-                  description: 'Error message or pattern to search for solutions',
-                },
-                limit: {
-                  type: 'number',
-                  description: 'Maximum number of results (default: 8)',
-                  default: 8,
-                },
-                detail_level: {
-                  type: 'string',
-                  description: 'Response detail: summary (default), detailed, raw',
-                  enum: ['summary', 'detailed', 'raw'],
-                  default: 'summary',
-                },
-              },
-              required: ['error_pattern'],
-            },
-          },
-          {
-            name: 'list_recent_sessions',
-            description: 'Browse recent sessions with smart activity detection and summaries',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                limit: {
-                  type: 'number',
-                  description: 'Maximum number of sessions (default: 10)',
-                  default: 10,
-                },
-                project: {
-                  type: 'string',
-                  description: 'Optional project name to filter sessions',
-                },
-                include_summary: {
-                  type: 'boolean',
-                  description: 'Include intelligent session summaries (default: true)',
-                  default: true,
-                },
-              },
-            },
-          },
-          {
-            name: 'extract_compact_summary',
-            description: 'Get intelligent summary of a conversation session with key insights',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                session_id: {
-                  type: 'string',
-                  description: 'Session ID to summarize',
-                },
-                max_messages: {
-                  type: 'number',
-                  description: 'Maximum messages to analyze (default: 10)',
-                  default: 10,
-                },
-                focus: {
-                  type: 'string',
-                  description: 'Focus area: solutions, tools, files, or all',
-                  enum: ['solutions', 'tools', 'files', 'all'],
-                  default: 'all',
-                },
-              },
-              required: ['session_id'],
-            },
-          },
-          {
-            name: 'find_tool_patterns',
-            description: 'Analyze tool usage patterns, workflows, and successful practices',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                tool_name: {
-                  type: 'string',
-                  description: 'Optional specific tool name to analyze',
-                },
-                pattern_type: {
-                  type: 'string',
-                  description: 'Type of patterns: tools, workflows, or solutions',
-                  enum: ['tools', 'workflows', 'solutions'],
-                  default: 'tools',
-                },
-                limit: {
-                  type: 'number',
-                  description: 'Maximum number of patterns (default: 12)',
-                  default: 12,
-                },
-              },
-            },
-          },
-          {
-            name: 'search_plans',
-            description:
-              'Search Claude Code plan files for past implementation approaches, decisions, and patterns',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                query: {
-                  type: 'string',
-                  description: 'Search query for plan content',
-                },
-                limit: {
-                  type: 'number',
-                  description: 'Maximum number of results (default: 10)',
-                  default: 10,
-                },
-                detail_level: {
-                  type: 'string',
-                  description: 'Response detail level',
-                  enum: ['summary', 'detailed', 'raw'],
-                  default: 'summary',
-                },
-              },
-              required: ['query'],
-            },
-          },
-        ],
-      };
+  private setupToolHandlers(server: Server): void {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
+      return { tools: TOOLS };
     });
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       try {
         const { name, arguments: args } = request.params;
+        const scan = this.scanOptions(request.params._meta?.progressToken, extra);
+        const maxTokens = (args?.max_tokens as number) || DEFAULT_MAX_TOKENS;
+        const format = (args?.output_format as OutputFormat) || 'json';
+
+        const tool = TOOLS.find((t) => t.name === name);
+        if (tool) validateArguments(name, tool.inputSchema as JsonSchema, args);
 
         switch (name) {
           case 'search_conversations': {
+            const page = openPage(name, args, (args?.limit as number) || 10);
+            const mode = (args?.mode as SearchMode) || 'smart';
+            // Exact and regex scans resume where the cursor left off and run one match past the
+            // page; the index can hold far more hits than anyone pages through, so it ranks down
+            // to this page
+            const literal = mode === 'exact' || mode === 'regex';
             const universalResult = await this.universalEngine.searchConversations(
               args?.query as string,
               args?.project as string,
               args?.timeframe as string,
-              (args?.limit as number) || 10
+              literal ? page.limit + 1 : rankingDepth(page),
+              {
+                includeThinking: (args?.include_thinking as boolean) || false,
+                includeThread: (args?.include_thread as boolean) || false,
+                mode,
+                scanFrom: literal ? page.offset : undefined,
+              }
             );
 
+            const { messages, scanPositions } = universalResult.results;
+            const { items, nextCursor } = literal
+              ? paginateScan(messages, scanPositions || [], page)
+              : paginate(messages, page);
             const detailLevel = (args?.detail_level as string) || 'summary';
             const formattedResult = this.formatter.formatSearchConversations(
-              universalResult.results,
-              detailLevel
+              { ...universalResult.results, messages: items },
+              detailLevel,
+              nextCursor,
+              maxTokens,
+              format
             );
 
             return {
-              content: [{ type: 'text', text: formattedResult }],
+              content: [{ type: 'text', text: formattedResult.text }],
+              structuredContent: formattedResult.structured,
             };
           }
 
           case 'find_file_context': {
+            const page = openPage(name, args, (args?.limit as number) || 15);
             const universalResult = await this.universalEngine.findFileContext(
               args?.filepath as string,
-              (args?.limit as number) || 15
+              WHOLE_RANKING,
+              args?.timeframe as string,
+              scan
             );
 
+            const { items, nextCursor } = paginate(universalResult.results, page);
             const detailLevel = (args?.detail_level as string) || 'summary';
             const operationType = (args?.operation_type as string) || 'all';
             const formattedResult = this.formatter.formatFileContext(
-              universalResult.results,
+              items,
               args?.filepath as string,
               detailLevel,
-              operationType
+              operationType,
+              nextCursor,
+              maxTokens,
+              format
             );
 
             return {
-              content: [{ type: 'text', text: formattedResult }],
+              content: [{ type: 'text', text: formattedResult.text }],
+              structuredContent: formattedResult.structured,
             };
           }
 
           case 'find_similar_queries': {
+            const page = openPage(name, args, (args?.limit as number) || 8);
             const universalResult = await this.universalEngine.findSimilarQueries(
               args?.query as string,
-              (args?.limit as number) || 8
+              WHOLE_RANKING,
+              scan
             );
 
+            const { items, nextCursor } = paginate(universalResult.results, page);
             const detailLevel = (args?.detail_level as string) || 'summary';
             const formattedResult = this.formatter.formatSimilarQueries(
-              universalResult.results,
+              items,
               args?.query as string,
-              detailLevel
+              detailLevel,
+              nextCursor,
+              maxTokens,
+              format
             );
 
             return {
-              content: [{ type: 'text', text: formattedResult }],
+              content: [{ type: 'text', text: formattedResult.text }],
+              structuredContent: formattedResult.structured,
             };
           }
 
           case 'get_error_solutions': {
+            const page = openPage(name, args, (args?.limit as number) || 8);
             const universalResult = await this.universalEngine.getErrorSolutions(
               args?.error_pattern as string,
-              (args?.limit as number) || 8
+              WHOLE_RANKING,
+              args?.timeframe as string,
+              scan
             );
 
+            const { items, nextCursor } = paginate(universalResult.results, page);
             const detailLevel = (args?.detail_level as string) || 'summary';
             const formattedResult = this.formatter.formatErrorSolutions(
-              universalResult.results,
+              items,
               args?.error_pattern as string,
-              detailLevel
+              detailLevel,
+              nextCursor,
+              maxTokens,
+              format
             );
 
             return {
-              content: [{ type: 'text', text: formattedResult }],
+              content: [{ type: 'text', text: formattedResult.text }],
+              structuredContent: formattedResult.structured,
             };
           }
 
           case 'list_recent_sessions': {
-            const limit = (args?.limit as number) || 10;
+            const page = openPage(name, args, (args?.limit as number) || 10);
             const project = args?.project as string;
 
-            const universalResult = await this.universalEngine.getRecentSessions(limit, project);
+            const universalResult = await this.universalEngine.getRecentSessions(
+              rankingDepth(page),
+              project,
+              args?.timeframe as string,
+              scan
+            );
+            const { items, nextCursor } = paginate(universalResult.results, page);
             const formattedResult = this.formatter.formatRecentSessions(
-              universalResult.results as any,
-              project
+              items,
+              project,
+              nextCursor,
+              maxTokens,
+              format
             );
 
             return {
-              content: [{ type: 'text', text: formattedResult }],
+              content: [{ type: 'text', text: formattedResult.text }],
+              structuredContent: formattedResult.structured,
             };
           }
 
@@ -364,45 +810,142 @@ class ClaudeHistorianServer {
             );
             const formattedResult = this.formatter.formatCompactSummary(
               [universalResult.results as any],
-              sessionId
+              sessionId,
+              maxTokens,
+              format
+            );
+
+            return {
+              content: [{ type: 'text', text: formattedResult.text }],
+              structuredContent: formattedResult.structured,
+            };
+          }
+
+          case 'get_session_transcript': {
+            const sessionId = args?.session_id as string;
+            // Transcripts page themselves - a cursor just carries the next offset
+            const page = openPage(name, args, 1);
+            const paged = args?.cursor !== undefined && args.cursor !== '';
+
+            const universalResult = await this.universalEngine.getSessionTranscript(sessionId, {
+              offset: paged ? page.offset : (args?.offset as number),
+              limit: args?.limit as number,
+              anchorUuid: paged ? undefined : (args?.anchor_uuid as string),
+              roles: args?.roles as ('user' | 'assistant')[],
+              includeTools: (args?.include_tools as boolean) || false,
+            });
+            const transcript = universalResult.results.transcript;
+            const formattedResult = this.formatter.formatSessionTranscript(
+              universalResult.results,
+              sessionId,
+              transcript && cursorAfter(page, transcript.offset, transcript.totalMessages),
+              maxTokens,
+              format
+            );
+
+            return {
+              content: [{ type: 'text', text: formattedResult.text }],
+              structuredContent: formattedResult.structured,
+            };
+          }
+
+          case 'get_message_context': {
+            const uuid = args?.uuid as string;
+
+            const universalResult = await this.universalEngine.getMessageContext(
+              uuid,
+              args?.before as number,
+              args?.after as number,
+              (args?.include_tools as boolean) || false
+            );
+            const formattedResult = this.formatter.formatMessageContext(
+              universalResult.results,
+              uuid,
+              maxTokens,
+              format
+            );
+
+            return {
+              content: [{ type: 'text', text: formattedResult.text }],
+              structuredContent: formattedResult.structured,
+            };
+          }
+
+          case 'get_usage_stats': {
+            const page = openPage(name, args, (args?.limit as number) || 20);
+            const project = args?.project as string;
+
+            // Grouping is done in memory anyway - page through every group
+            const universalResult = await this.universalEngine.getUsageStats(
+              args?.group_by as UsageGroupBy,
+              project,
+              args?.timeframe as string,
+              Infinity
+            );
+            const report = universalResult.results;
+            const { items, nextCursor } = paginate(report.groups, page);
+            const formattedResult = this.formatter.formatUsageStats(
+              // Groups after this page still count as more_groups
+              { ...report, groups: items, totalGroups: report.totalGroups - page.offset },
+              project,
+              nextCursor,
+              maxTokens,
+              format
             );
 
             return {
-              content: [{ type: 'text', text: formattedResult }],
+              content: [{ type: 'text', text: formattedResult.text }],
+              structuredContent: formattedResult.structured,
             };
           }
 
           case 'find_tool_patterns': {
+            const page = openPage(name, args, (args?.limit as number) || 12);
             const universalResult = await this.universalEngine.getToolPatterns(
               args?.tool_name as string,
-              (args?.limit as number) || 12
+              WHOLE_RANKING,
+              scan
             );
 
+            const { items, nextCursor } = paginate(universalResult.results, page);
             const patternType = (args?.pattern_type as string) || 'tools';
             const formattedResult = this.formatter.formatToolPatterns(
-              universalResult.results as any,
+              items,
               args?.tool_name as string,
-              patternType
+              patternType,
+              nextCursor,
+              maxTokens,
+              format
             );
 
             return {
-              content: [{ type: 'text', text: formattedResult }],
+              content: [{ type: 'text', text: formattedResult.text }],
+              structuredContent: formattedResult.structured,
             };
           }
 
           case 'search_plans': {
             const query = args?.query as string;
-            const limit = (args?.limit as number) || 10;
+            const page = openPage(name, args, (args?.limit as number) || 10);
             const detailLevel = (args?.detail_level as string) || 'summary';
 
-            const result = await this.universalEngine.searchPlans(query, limit);
+            const result = await this.universalEngine.searchPlans(
+              query,
+              WHOLE_RANKING,
+              args?.timeframe as string
+            );
+            const { items, nextCursor } = paginate(result.results, page);
             const formattedResult = this.formatter.formatPlanSearch(
-              { searchQuery: query, plans: result.results },
-              detailLevel
+              { searchQuery: query, plans: items },
+              detailLevel,
+              nextCursor,
+              maxTokens,
+              format
             );
 
             return {
-              content: [{ type: 'text', text: formattedResult }],
+              content: [{ type: 'text', text: formattedResult.text }],
+              structuredContent: formattedResult.structured,
             };
           }
 
@@ -410,6 +953,17 @@ class ClaudeHistorianServer {
             throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
         }
       } catch (error) {
+        if (error instanceof McpError) throw error;
+        if (extra.signal.aborted) throw error; // Cancelled - the SDK drops the response anyway
+        if (
+          error instanceof QuerySyntaxError ||
+          error instanceof TimeframeError ||
+          error instanceof CursorError ||
+          error instanceof ArgumentError
+        ) {
+          throw new McpError(ErrorCode.InvalidParams, error.message);
+        }
+
         console.error('Tool execution error:', error);
         throw new McpError(
           ErrorCode.InternalError,
@@ -419,19 +973,324 @@ class ClaudeHistorianServer {
     });
   }
 
+  // Scans report "files read / files to read" when the request carries a progress token, and
+  // stop reading once the client sends notifications/cancelled
+  private scanOptions(
+    progressToken: ProgressToken | undefined,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+  ): ScanOptions {
+    return {
+      signal: extra.signal,
+      onProgress:
+        progressToken === undefined
+          ? undefined
+          : (scanned, total): void => {
+              extra
+                .sendNotification({
+                  method: 'notifications/progress',
+                  params: {
+                    progressToken,
+                    progress: scanned,
+                    total,
+                    message: `Scanned ${scanned} of ${total} session files`,
+                  },
+                })
+                .catch((error) => console.error('Progress notification failed:', error));
+            },
+    };
+  }
+
+  // Sessions, project session lists and plans as attachable context, no tool call needed
+  private setupResourceHandlers(server: Server): void {
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      const sessions = await this.universalEngine.listSessions(undefined, Infinity);
+      const plans = await this.universalEngine.listPlans();
+
+      const projects = new Set(
+        sessions.results.map((session) => session.projectPath.split('/').pop() || 'unknown')
+      );
+
+      return {
+        resources: [
+          ...sessions.results.slice(0, RECENT_SESSION_RESOURCES).map((session) => ({
+            uri: `historian://session/${session.sessionId}`,
+            name: `${session.projectPath.split('/').pop()} (${session.sessionId.substring(0, 8)})`,
+            description: `${session.messageCount} messages, last active ${session.lastActivity}`,
+            mimeType: 'text/plain',
+          })),
+          ...[...projects].map((project) => ({
+            uri: `historian://project/${encodeURIComponent(project)}/sessions`,
+            name: `${project} sessions`,
+            mimeType: 'text/plain',
+          })),
+          ...plans.results.map((plan) => ({
+            uri: `historian://plan/${encodeURIComponent(plan.name)}`,
+            name: plan.title || plan.name,
+            mimeType: 'text/markdown',
+          })),
+        ],
+      };
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return {
+        resourceTemplates: [
+          {
+            uriTemplate: 'historian://session/{id}',
+            name: 'Session',
+            description:
+              'A past Claude Code session (conversation only). id: full session id, unique prefix, or "latest"',
+            mimeType: 'text/plain',
+          },
+          {
+            uriTemplate: 'historian://project/{name}/sessions',
+            name: 'Project sessions',
+            description:
+              'Sessions of a project, newest first. name: project directory or repository name',
+            mimeType: 'text/plain',
+          },
+          {
+            uriTemplate: 'historian://plan/{name}',
+            name: 'Plan',
+            description: 'A plan from ~/.claude/plans, by file name without .md',
+            mimeType: 'text/markdown',
+          },
+        ],
+      };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      const resource = parseResourceUri(uri);
+      if (!resource) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+      }
+      const { kind, name } = resource;
+
+      switch (kind) {
+        case 'session': {
+          const lookup = await this.universalEngine.getSession(name);
+          if (!lookup.results.transcript) {
+            const candidates = lookup.results.candidates;
+            throw new McpError(
+              ErrorCode.InvalidParams,
+              candidates.length > 1
+                ? `Ambiguous session "${name}", matches: ${candidates.join(', ')}`
+                : `Session not found: ${name}`
+            );
+          }
+
+          // A read can't page or ask for more, so the resource is the whole session - no budget
+          return {
+            contents: [
+              {
+                uri,
+                mimeType: 'text/plain',
+                text: this.formatter.formatSessionTranscript(lookup.results, name, null, Infinity)
+                  .text,
+              },
+            ],
+          };
+        }
+
+        case 'project': {
+          const sessions = await this.universalEngine.listSessions(name, Infinity);
+          if (sessions.results.length === 0) {
+            throw new McpError(ErrorCode.InvalidParams, `No sessions for project: ${name}`);
+          }
+
+          return {
+            contents: [
+              {
+                uri,
+                mimeType: 'text/plain',
+                text: this.formatter.formatSessionList(sessions.results, name),
+              },
+            ],
+          };
+        }
+
+        default: {
+          const plan = await this.universalEngine.getPlan(name);
+          if (!plan.results) {
+            throw new McpError(ErrorCode.InvalidParams, `Plan not found: ${name}`);
+          }
+
+          return {
+            contents: [{ uri, mimeType: 'text/markdown', text: plan.results.content }],
+          };
+        }
+      }
+    });
+  }
+
+  private setupPromptHandlers(server: Server): void {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return { prompts: PROMPTS };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      const prompt = PROMPTS.find((p) => p.name === name);
+      if (!prompt) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+      }
+      for (const argument of prompt.arguments) {
+        if (argument.required && !args?.[argument.name]?.trim()) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Prompt ${name} needs the "${argument.name}" argument`
+          );
+        }
+      }
+
+      let description: string;
+      let text: string;
+
+      switch (name) {
+        case 'resume_project': {
+          const project = args!.project;
+          const sessions = await this.universalEngine.getRecentSessions(5, project);
+
+          description = `Resume work in ${project}`;
+          text = `I'm picking up work in ${project} again. Using my recent sessions below, summarise where I left off: what was finished, what was in progress, and any open problems. Then suggest the next concrete step.\n\n${this.formatter.formatRecentSessions(sessions.results, project).text}`;
+          break;
+        }
+
+        case 'seen_error_before': {
+          const error = args!.error;
+          const solutions = await this.universalEngine.getErrorSolutions(error, 8);
+
+          description = `Past occurrences of "${error}"`;
+          text = `I'm hitting this error:\n\n${error}\n\nHave I seen it before? From the history below, tell me how it was fixed last time and whether that fix applies now. Say so plainly if there is no earlier occurrence.\n\n${this.formatter.formatErrorSolutions(solutions.results, error, 'summary').text}`;
+          break;
+        }
+
+        case 'past_decision': {
+          const topic = args!.topic;
+          const plans = await this.universalEngine.searchPlans(topic, 5);
+          const conversations = await this.universalEngine.searchConversations(
+            topic,
+            undefined,
+            undefined,
+            10
+          );
+
+          description = `Past decisions about ${topic}`;
+          text = `What did we decide about ${topic}? Using the plans and conversations below, state the decision, the reasoning behind it and any alternatives we rejected. Point out where later sessions changed course.\n\n${this.formatter.formatPlanSearch({ searchQuery: topic, plans: plans.results }).text}\n\n${this.formatter.formatSearchConversations(conversations.results, 'summary').text}`;
+          break;
+        }
+
+        case 'tool_workflows': {
+          const tool = args!.tool;
+          const patterns = await this.universalEngine.getToolPatterns(tool, 12);
+
+          description = `How ${tool} gets used`;
+          text = `How do I usually use ${tool}? From the patterns below, describe the workflows it shows up in, what tends to come before and after it, and any habits worth keeping or changing.\n\n${this.formatter.formatToolPatterns(patterns.results, tool).text}`;
+          break;
+        }
+
+        default: {
+          const project = args?.project || undefined;
+          // Every session of the week - the token budget shortens them rather than a count
+          const sessions = await this.universalEngine.getRecentSessions(
+            WHOLE_RANKING,
+            project,
+            'week'
+          );
+
+          description = project ? `This week in ${project}` : 'This week across all projects';
+          text = `Summarise my work this week${project ? ` in ${project}` : ''}, grouped by project: what got done, what is still open, and anything worth following up on.\n\n${this.formatter.formatRecentSessions(sessions.results, project).text}`;
+        }
+      }
+
+      return {
+        description,
+        messages: [{ role: 'user', content: { type: 'text', text } }],
+      };
+    });
+  }
+
+  // Suggest the unmemorable values - encoded project names, tool names, session UUIDs - as the
+  // user types
+  private setupCompletionHandlers(server: Server): void {
+    server.setRequestHandler(CompleteRequestSchema, async (request) => {
+      const { ref, argument } = request.params;
+      const kind =
+        ref.type === 'ref/resource'
+          ? TEMPLATE_COMPLETIONS[ref.uri]
+          : ARGUMENT_COMPLETIONS[argument.name];
+      const candidates = kind ? await this.completionCandidates(kind) : [];
+
+      // Prefix matches first, then the names that merely contain what was typed
+      const typed = argument.value.toLowerCase();
+      const matches = [
+        ...candidates.filter((value) => value.toLowerCase().startsWith(typed)),
+        ...candidates.filter(
+          (value) => !value.toLowerCase().startsWith(typed) && value.toLowerCase().includes(typed)
+        ),
+      ];
+
+      return {
+        completion: {
+          values: matches.slice(0, MAX_COMPLETIONS),
+          total: matches.length,
+          hasMore: matches.length > MAX_COMPLETIONS,
+        },
+      };
+    });
+  }
+
+  // Every value an argument of this kind accepts, most likely first
+  private async completionCandidates(kind: CompletionKind): Promise<string[]> {
+    switch (kind) {
+      case 'project':
+        return (await this.universalEngine.listProjectNames()).results;
+      case 'tool':
+        return (await this.universalEngine.listToolNames()).results;
+      case 'session': {
+        const sessions = await this.universalEngine.listSessions(undefined, Infinity);
+        return ['latest', ...sessions.results.map((session) => session.sessionId)];
+      }
+      default:
+        return (await this.universalEngine.listPlans()).results.map((plan) => plan.name);
+    }
+  }
+
   async run(): Promise<void> {
     const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    await this.createServer().connect(transport);
     console.error('Claude Historian MCP server running on stdio');
 
+    await this.serveUntilSignalled();
+  }
+
+  async runHttp(options: HttpServerOptions): Promise<void> {
+    await startHttpServer(() => this.createServer(), options);
+    console.error(
+      `Claude Historian MCP server running on ${serverUrl(options)}` +
+        (options.token ? ' (bearer token required)' : '')
+    );
+
+    await this.serveUntilSignalled();
+  }
+
+  private async serveUntilSignalled(): Promise<void> {
+    // Keep the index warm in the background so queries never pay for a cold scan
+    this.watcher.start().catch((error) => console.error('History watcher failed:', error));
+
     // Keep the process alive by listening for process signals
-    process.on('SIGINT', () => {
+    process.on('SIGINT', async () => {
       console.error('Received SIGINT, shutting down gracefully...');
+      this.watcher.stop();
+      await this.index.flush();
       process.exit(0);
     });
 
-    process.on('SIGTERM', () => {
+    process.on('SIGTERM', async () => {
       console.error('Received SIGTERM, shutting down gracefully...');
+      this.watcher.stop();
+      await this.index.flush();
       process.exit(0);
     });
 
@@ -440,6 +1299,7 @@ class ClaudeHistorianServer {
       // This promise never resolves, keeping the server running
     });
   }
+
   private async generateSmartSummary(
     sessionId: string,
     maxMessages: number,
@@ -662,7 +1522,7 @@ class ClaudeHistorianServer {
 
       // Filter by project if specified
       const filteredSessions = project
-        ? sessions.filter((s) => s.projectPath?.includes(project))
+        ? sessions.filter((s) => s.project_path.includes(project))
         : sessions;
 
       if (!filteredSessions.length) {
@@ -670,7 +1530,7 @@ class ClaudeHistorianServer {
       }
 
       // Use the enhanced formatter for consistency and improvements
-      return this.formatter.formatRecentSessions(filteredSessions, project);
+      return this.formatter.formatRecentSessions(filteredSessions, project).text;
     } catch (error) {
       return `[⌐○_○] Enhanced session listing failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
     }
@@ -794,7 +1654,7 @@ async function runDoctorDiagnostics(): Promise<void> {
   if (allPassed) {
     console.log('🎉 All tests passed! Claude Historian is fully operational.');
     console.log('\n💡 Optimizations active:');
-    console.log('   • Smart content preservation (2000 char limit with intelligent truncation)');
+    console.log('   • Token-budgeted responses (max_tokens, best results first)');
     console.log('   • Dynamic response sizing based on content type');
     console.log('   • Parallel processing with 5x cache (500 entries)');
     console.log('   • Enhanced search intelligence with semantic expansion');
@@ -1029,10 +1889,16 @@ Claude Historian - MCP Server for Claude Code History Search
 
 Usage:
   npx claude-historian-mcp                # Start MCP server (stdio mode)
+  npx claude-historian-mcp --http 8765    # Start MCP server (Streamable HTTP on 127.0.0.1:8765/mcp)
   npx claude-historian-mcp --config       # Show configuration snippet
   npx claude-historian-mcp --doctor       # Run self-diagnostics and tests
   npx claude-historian-mcp --help         # Show this help
 
+HTTP options:
+  --host <address>                        # Interface to bind (default: 127.0.0.1)
+  --token <secret>                        # Require "Authorization: Bearer <secret>"
+                                          # (or set CLAUDE_HISTORIAN_TOKEN)
+
 Installation:
   claude mcp add claude-historian-mcp -- npx claude-historian-mcp
 
@@ -1070,6 +1936,40 @@ if (args.includes('--doctor')) {
   process.exit(0);
 }
 
+// Value following a flag, e.g. --http 8765
+function optionValue(flag: string): string | undefined {
+  const position = args.indexOf(flag);
+  if (position === -1) return undefined;
+
+  const value = args[position + 1];
+  if (value === undefined || value.startsWith('--')) {
+    console.error(`${flag} needs a value`);
+    process.exit(1);
+  }
+  return value;
+}
+
 // Start the server
 const server = new ClaudeHistorianServer();
-server.run().catch(console.error);
+const httpPort = optionValue('--http');
+
+if (httpPort !== undefined) {
+  const port = Number(httpPort);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    console.error(`--http needs a port from 1 to 65535, got ${httpPort}`);
+    process.exit(1);
+  }
+
+  server
+    .runHttp({
+      port,
+      host: optionValue('--host') || '127.0.0.1',
+      token: optionValue('--token') || process.env.CLAUDE_HISTORIAN_TOKEN || undefined,
+    })
+    .catch((error) => {
+      console.error('Failed to start HTTP server:', error);
+      process.exit(1);
+    });
+} else {
+  server.run().catch(console.error);
+}
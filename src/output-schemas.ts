@@ -0,0 +1,279 @@
+// outputSchema for each tool - JSON Schema for the structuredContent it returns, mirroring the
+// *Output interfaces in types.ts
+
+const string = { type: 'string' };
+const number = { type: 'number' };
+const nullableString = { type: ['string', 'null'] };
+const nullableNumber = { type: ['number', 'null'] };
+const strings = { type: 'array', items: string };
+const nullableStrings = { type: ['array', 'null'], items: string };
+const nextCursor = {
+  type: 'string',
+  description: 'Pass as cursor, with the same arguments, for the next page',
+};
+
+const budget = {
+  type: 'object',
+  description: 'Present when results were left out or shortened to fit max_tokens',
+  properties: { max_tokens: number, omitted: number, shortened: number, hint: string },
+};
+
+interface ObjectSchema {
+  [keyword: string]: unknown;
+  type: 'object';
+  properties: Record<string, object>;
+  required?: string[];
+}
+
+function object(properties: Record<string, object>, required?: string[]): ObjectSchema {
+  return { type: 'object', properties, ...(required && { required }) };
+}
+
+function nullableObject(properties: Record<string, object>): object {
+  return { type: ['object', 'null'], properties };
+}
+
+function list(item: object): object {
+  return { type: 'array', items: item };
+}
+
+// Files, tools, errors and snippets extracted from a message
+const context = nullableObject({
+  filesReferenced: strings,
+  toolsUsed: strings,
+  errorPatterns: strings,
+  bashCommands: strings,
+  claudeInsights: strings,
+  codeSnippets: strings,
+  actionItems: strings,
+});
+
+const toolResults = {
+  type: ['array', 'null'],
+  items: object({ tool: nullableString, error: { type: 'boolean' }, output: string }),
+};
+
+const briefMessage = { type: string, ts: string, content: string };
+
+const transcriptMessage = object(
+  {
+    uuid: string,
+    anchor: { type: 'boolean' },
+    type: string,
+    ts: string,
+    content: string,
+    sidechain: { type: 'boolean' },
+    results: toolResults,
+  },
+  ['uuid', 'type', 'content']
+);
+
+const session = object({
+  id: nullableString,
+  ts: string,
+  duration: number,
+  messages: number,
+  project: nullableString,
+  repo: nullableString,
+  tools: nullableStrings,
+  accomplishments: nullableStrings,
+});
+
+const usageGroup = object({
+  key: string,
+  responses: number,
+  input: number,
+  output: number,
+  cache_write: number,
+  cache_read: number,
+  total: number,
+  cost_usd: number,
+});
+
+export const SEARCH_CONVERSATIONS_OUTPUT = object(
+  {
+    total: { ...number, description: 'Every match in range, over all pages (not for exact/regex)' },
+    results: list(
+      object(
+        {
+          uuid: string,
+          session: string,
+          type: string,
+          ts: string,
+          content: string,
+          project: nullableString,
+          repo: nullableString,
+          score: nullableNumber,
+          ctx: context,
+          results: toolResults,
+          thinking: nullableString,
+          thread: nullableObject({
+            parent: nullableObject(briefMessage),
+            replies: list(object(briefMessage)),
+          }),
+          matches: {
+            type: ['array', 'null'],
+            items: object({
+              in: string,
+              at: { type: 'array', items: number, minItems: 2, maxItems: 2 },
+              text: string,
+            }),
+          },
+        },
+        ['uuid', 'type', 'content']
+      )
+    ),
+    next_cursor: nextCursor,
+    budget,
+  },
+  ['results']
+);
+
+export const FIND_FILE_CONTEXT_OUTPUT = object(
+  {
+    filepath: string,
+    operations: list(
+      object({
+        type: string,
+        ts: string,
+        changes: strings,
+        content: nullableString,
+        ctx: context,
+      })
+    ),
+    next_cursor: nextCursor,
+    budget,
+  },
+  ['filepath', 'operations']
+);
+
+export const FIND_SIMILAR_QUERIES_OUTPUT = object(
+  {
+    similar: list(
+      object({
+        question: string,
+        answer: nullableString,
+        ts: string,
+        project: nullableString,
+        score: nullableNumber,
+        ctx: context,
+      })
+    ),
+    next_cursor: nextCursor,
+    budget,
+  },
+  ['similar']
+);
+
+export const GET_ERROR_SOLUTIONS_OUTPUT = object(
+  {
+    error_pattern: string,
+    solutions: list(
+      object({
+        pattern: string,
+        frequency: number,
+        fixes: list(object({ content: string, code: nullableStrings, files: nullableStrings })),
+        ctx: context,
+      })
+    ),
+    next_cursor: nextCursor,
+    budget,
+  },
+  ['error_pattern', 'solutions']
+);
+
+export const LIST_RECENT_SESSIONS_OUTPUT = object(
+  { sessions: list(session), next_cursor: nextCursor, budget },
+  ['sessions']
+);
+
+export const EXTRACT_COMPACT_SUMMARY_OUTPUT = object(
+  {
+    session: nullableObject({
+      id: nullableString,
+      ts: string,
+      duration: number,
+      messages: number,
+      project: nullableString,
+      tools: nullableStrings,
+      files: nullableStrings,
+      accomplishments: nullableStrings,
+      decisions: nullableStrings,
+    }),
+    budget,
+  },
+  ['session']
+);
+
+export const GET_SESSION_TRANSCRIPT_OUTPUT = object(
+  {
+    session: { ...nullableString, description: 'null when the session was not found' },
+    candidates: { ...strings, description: 'Session ids an ambiguous prefix matched' },
+    project: string,
+    total: number,
+    offset: number,
+    next_offset: nullableNumber,
+    branch_points: nullableStrings,
+    messages: list(transcriptMessage),
+    next_cursor: nextCursor,
+    budget,
+  },
+  ['session']
+);
+
+export const GET_MESSAGE_CONTEXT_OUTPUT = object(
+  { session: string, project: string, messages: list(transcriptMessage), budget },
+  ['messages']
+);
+
+export const GET_USAGE_STATS_OUTPUT = object(
+  {
+    totals: usageGroup,
+    groups: list(usageGroup),
+    more_groups: number,
+    prices: string,
+    unpriced_models: strings,
+    next_cursor: nextCursor,
+    budget,
+  },
+  ['totals', 'groups']
+);
+
+export const FIND_TOOL_PATTERNS_OUTPUT = object(
+  {
+    tool: string,
+    patterns: list(
+      object({
+        name: string,
+        uses: number,
+        workflow: nullableString,
+        practice: nullableString,
+        example: nullableString,
+        ctx: context,
+      })
+    ),
+    next_cursor: nextCursor,
+    budget,
+  },
+  ['tool', 'patterns']
+);
+
+export const SEARCH_PLANS_OUTPUT = object(
+  {
+    plans: list(
+      object({
+        name: string,
+        ts: string,
+        title: nullableString,
+        goal: nullableString,
+        key_insight: nullableString,
+        sections: strings,
+        files: strings,
+        score: number,
+      })
+    ),
+    next_cursor: nextCursor,
+    budget,
+  },
+  ['plans']
+);
@@ -0,0 +1,132 @@
+// Opaque cursors for paging through tool results
+//
+// Rankings are deterministic and pages are consecutive slices of one, so walking the cursors
+// visits every result once, however deep it goes. Scans (exact and regex search) page by where
+// the scan got to instead, so a page picks up where the last one stopped. A cursor is only valid with the arguments of
+// the call that issued it (limit, max_tokens and output_format aside - those only change how much
+// of a page is shown and how).
+import { createHash } from 'crypto';
+
+// Largest page a call can ask for
+export const MAX_PAGE_SIZE = 100;
+
+export class CursorError extends Error {
+  constructor(message: string) {
+    super(`Invalid cursor: ${message}`);
+    this.name = 'CursorError';
+  }
+}
+
+export interface PageRequest {
+  tool: string;
+  key: string; // Fingerprint of the arguments that shape the results
+  offset: number;
+  limit: number;
+}
+
+interface CursorState {
+  t: string;
+  k: string;
+  o: number;
+}
+
+// Arguments that change how much of the ranking a page shows, not the ranking itself
+const PRESENTATION_ARGUMENTS = new Set(['cursor', 'limit', 'max_tokens', 'output_format']);
+
+// Argument order doesn't matter and paging arguments don't change what is being paged through
+function fingerprint(args: Record<string, unknown>): string {
+  const shaping = Object.keys(args)
+    .filter((name) => !PRESENTATION_ARGUMENTS.has(name) && args[name] !== undefined)
+    .sort()
+    .map((name) => [name, args[name]]);
+  return createHash('sha1').update(JSON.stringify(shaping)).digest('base64url').substring(0, 12);
+}
+
+function isCursorState(value: unknown): value is CursorState {
+  if (typeof value !== 'object' || value === null) return false;
+  const state = value as Record<string, unknown>;
+  return (
+    typeof state.t === 'string' &&
+    typeof state.k === 'string' &&
+    Number.isInteger(state.o) &&
+    (state.o as number) >= 0
+  );
+}
+
+function decodeCursor(cursor: string): CursorState {
+  let state: unknown;
+  try {
+    state = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new CursorError('not a cursor issued by this server');
+  }
+
+  if (!isCursorState(state)) {
+    throw new CursorError('not a cursor issued by this server');
+  }
+  return state;
+}
+
+// The page a tool call asks for: the first one, or wherever its cursor points
+export function openPage(
+  tool: string,
+  args: Record<string, unknown> | undefined,
+  limit: number
+): PageRequest {
+  const key = fingerprint(args || {});
+  const page = { tool, key, offset: 0, limit: Math.min(Math.max(limit, 1), MAX_PAGE_SIZE) };
+
+  const cursor = args?.cursor;
+  if (cursor === undefined || cursor === '') return page;
+  if (typeof cursor !== 'string') throw new CursorError('expected a string');
+
+  const state = decodeCursor(cursor);
+  if (state.t !== tool) {
+    throw new CursorError(`issued by ${state.t}, not ${tool}`);
+  }
+  if (state.k !== key) {
+    throw new CursorError('arguments changed - repeat the original call with the cursor added');
+  }
+
+  return { ...page, offset: state.o };
+}
+
+// The next page's cursor, given how many of this page's results the response actually shows -
+// results left out to fit max_tokens start the next page rather than being skipped
+export type NextCursor = (shown: number) => string | null;
+
+// Cursor for the page starting at offset
+function cursorAt(page: PageRequest, offset: number): string {
+  const state: CursorState = { t: page.tool, k: page.key, o: offset };
+  return Buffer.from(JSON.stringify(state)).toString('base64url');
+}
+
+// How much of a ranking a page needs: everything up to its end, plus one to tell whether more follow
+export function rankingDepth(page: PageRequest): number {
+  return page.offset + page.limit + 1;
+}
+
+// Next cursor for a page starting at offset in a ranking of total results
+export function cursorAfter(page: PageRequest, offset: number, total: number): NextCursor {
+  return (shown) => (offset + shown < total ? cursorAt(page, offset + shown) : null);
+}
+
+export function paginate<T>(items: T[], page: PageRequest): { items: T[]; nextCursor: NextCursor } {
+  return {
+    items: items.slice(page.offset, page.offset + page.limit),
+    nextCursor: cursorAfter(page, page.offset, items.length),
+  };
+}
+
+// A page of a scan that was run for one result past the page: its next cursor resumes the scan at
+// the first result not shown, and there is none once the scan ran out
+export function paginateScan<T>(
+  items: T[],
+  positions: number[],
+  page: PageRequest
+): { items: T[]; nextCursor: NextCursor } {
+  return {
+    items: items.slice(0, page.limit),
+    nextCursor: (shown) => (shown < positions.length ? cursorAt(page, positions[shown]) : null),
+  };
+}
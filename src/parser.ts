@@ -1,74 +1,231 @@
 import { createReadStream } from 'fs';
-import { createInterface } from 'readline';
+import { open } from 'fs/promises';
 import { join } from 'path';
-import { ClaudeMessage, CompactMessage, ConversationSession } from './types.js';
+import {
+  ClaudeMessage,
+  CompactMessage,
+  ConversationSession,
+  ConversationThread,
+  LocatedMessage,
+  LocatedParseResult,
+} from './types.js';
 import {
   getClaudeProjectsPath,
   decodeProjectPath,
+  getRepoRoot,
+  rememberProjectCwd,
   extractContentFromMessage,
-  calculateRelevanceScore,
+  extractToolResults,
+  extractThinkingFromMessage,
   formatTimestamp,
 } from './utils.js';
 
+interface JsonlLine {
+  text: string;
+  offset: number;
+  length: number;
+  terminated: boolean; // false for a final line with no trailing newline (possibly mid-write)
+}
+
 export class ConversationParser {
   private sessions: Map<string, ConversationSession> = new Map();
 
   async parseJsonlFile(
     projectDir: string,
     filename: string,
-    query?: string,
-    timeFilter?: (timestamp: string) => boolean
+    timeFilter?: (timestamp: string) => boolean,
+    signal?: AbortSignal
   ): Promise<CompactMessage[]> {
     const messages: CompactMessage[] = [];
     const filePath = join(getClaudeProjectsPath(), projectDir, filename);
+    const toolNames = new Map<string, string>();
 
     try {
-      const fileStream = createReadStream(filePath, { encoding: 'utf8' });
-      const rl = createInterface({
-        input: fileStream,
-        crlfDelay: Infinity,
-      });
+      for await (const line of this.readJsonlLines(filePath)) {
+        signal?.throwIfAborted();
+        const compactMessage = this.parseLine(
+          line.text,
+          projectDir,
+          filename,
+          timeFilter,
+          toolNames
+        );
+        if (compactMessage) messages.push(compactMessage);
+      }
+    } catch (error) {
+      if (signal?.aborted) throw error; // Cancelled, not unreadable
+      console.error(`Error reading file ${filename}:`, error);
+    }
 
-      for await (const line of rl) {
-        if (!line.trim()) continue;
+    return messages;
+  }
 
-        try {
-          const claudeMessage: ClaudeMessage = JSON.parse(line);
+  // Same as parseJsonlFile, but remembers where each message lives so it can be re-read later.
+  // Starts at startOffset (JSONL is append-only) and reports how far it got; a trailing line that
+  // is still being written is left unconsumed so the next call picks it up whole.
+  // toolNames carries tool_use id → name across calls so results can be linked to their tool_use.
+  async parseJsonlFileWithLocations(
+    projectDir: string,
+    filename: string,
+    startOffset: number = 0,
+    toolNames: Map<string, string> = new Map()
+  ): Promise<LocatedParseResult> {
+    const messages: LocatedMessage[] = [];
+    const filePath = join(getClaudeProjectsPath(), projectDir, filename);
+    let endOffset = startOffset;
 
-          // Apply time filter if provided
-          if (timeFilter && !timeFilter(claudeMessage.timestamp)) {
-            continue;
-          }
+    try {
+      for await (const line of this.readJsonlLines(filePath, startOffset)) {
+        if (!line.terminated && !this.isCompleteJson(line.text)) break;
 
-          const content = extractContentFromMessage(claudeMessage.message || {});
-          if (!content) continue;
-
-          const compactMessage: CompactMessage = {
-            uuid: claudeMessage.uuid,
-            timestamp: formatTimestamp(claudeMessage.timestamp),
-            type: claudeMessage.type,
-            content: this.smartContentPreservation(content, this.getContentLimit(content)), // Adaptive limit based on content type
-            sessionId: claudeMessage.sessionId,
-            projectPath: decodeProjectPath(projectDir),
-            relevanceScore: query ? calculateRelevanceScore(claudeMessage, query, projectDir) : 0,
-            context: this.extractContext(claudeMessage, content),
-          };
-
-          messages.push(compactMessage);
-
-          // Track session info
-          this.updateSessionInfo(claudeMessage, projectDir);
-        } catch (parseError) {
-          // Gracefully handle corrupted JSONL lines
-          console.warn(`Skipping malformed line in ${filename}:`, parseError);
-          continue;
-        }
+        const message = this.parseLine(line.text, projectDir, filename, undefined, toolNames);
+        if (message) messages.push({ message, offset: line.offset, length: line.length });
+        endOffset = line.offset + line.length;
       }
     } catch (error) {
       console.error(`Error reading file ${filename}:`, error);
     }
 
-    return messages;
+    return { messages, endOffset };
+  }
+
+  // Read a single message back from a known byte range (as recorded by parseJsonlFileWithLocations)
+  async readMessageAt(
+    projectDir: string,
+    filename: string,
+    offset: number,
+    length: number
+  ): Promise<CompactMessage | null> {
+    const filePath = join(getClaudeProjectsPath(), projectDir, filename);
+
+    try {
+      const handle = await open(filePath, 'r');
+      try {
+        const buffer = Buffer.alloc(length);
+        const { bytesRead } = await handle.read(buffer, 0, length, offset);
+        const text = buffer.toString('utf8', 0, bytesRead);
+        return this.parseLine(text, projectDir, filename);
+      } finally {
+        await handle.close();
+      }
+    } catch (error) {
+      console.error(`Error reading message from ${filename}@${offset}:`, error);
+      return null;
+    }
+  }
+
+  // Stream a JSONL file line by line while tracking byte offsets (readline only gives us text)
+  private async *readJsonlLines(filePath: string, start: number = 0): AsyncGenerator<JsonlLine> {
+    let pending: Buffer = Buffer.alloc(0);
+    let pendingOffset = start;
+
+    for await (const chunk of createReadStream(filePath, { start })) {
+      pending = pending.length > 0 ? Buffer.concat([pending, chunk as Buffer]) : (chunk as Buffer);
+
+      let newline = pending.indexOf(0x0a);
+      while (newline !== -1) {
+        const text = pending.toString('utf8', 0, newline).replace(/\r$/, '');
+        if (text.trim()) {
+          yield { text, offset: pendingOffset, length: newline + 1, terminated: true };
+        }
+
+        pending = pending.subarray(newline + 1);
+        pendingOffset += newline + 1;
+        newline = pending.indexOf(0x0a);
+      }
+    }
+
+    // Final line without trailing newline
+    const tail = pending.toString('utf8').replace(/\r$/, '');
+    if (tail.trim()) {
+      yield { text: tail, offset: pendingOffset, length: pending.length, terminated: false };
+    }
+  }
+
+  private isCompleteJson(line: string): boolean {
+    try {
+      JSON.parse(line);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private parseLine(
+    line: string,
+    projectDir: string,
+    filename: string,
+    timeFilter?: (timestamp: string) => boolean,
+    toolNames?: Map<string, string>
+  ): CompactMessage | null {
+    try {
+      const claudeMessage: ClaudeMessage = JSON.parse(line);
+
+      // Remember tool_use names before the time filter - their results may still be in range
+      if (toolNames) this.registerToolUses(claudeMessage, toolNames);
+
+      // Apply time filter if provided
+      if (timeFilter && !timeFilter(claudeMessage.timestamp)) {
+        return null;
+      }
+
+      const content = extractContentFromMessage(claudeMessage.message || {});
+      const thinking = extractThinkingFromMessage(claudeMessage.message || {});
+      if (!content && !thinking) return null;
+
+      const compactMessage: CompactMessage = {
+        uuid: claudeMessage.uuid,
+        timestamp: formatTimestamp(claudeMessage.timestamp),
+        type: claudeMessage.type,
+        content,
+        sessionId: claudeMessage.sessionId,
+        projectPath:
+          rememberProjectCwd(projectDir, claudeMessage.cwd) || decodeProjectPath(projectDir),
+        repo: getRepoRoot(projectDir),
+        context: this.extractContext(claudeMessage, content),
+        parentUuid: claudeMessage.parentUuid ?? null,
+      };
+
+      if (claudeMessage.isSidechain) compactMessage.isSidechain = true;
+
+      const apiMessage = claudeMessage.message;
+      if (apiMessage?.model) compactMessage.model = apiMessage.model;
+      if (apiMessage?.id) compactMessage.apiMessageId = apiMessage.id;
+      if (apiMessage?.usage) {
+        compactMessage.usage = {
+          inputTokens: apiMessage.usage.input_tokens || 0,
+          outputTokens: apiMessage.usage.output_tokens || 0,
+          cacheCreationTokens: apiMessage.usage.cache_creation_input_tokens || 0,
+          cacheReadTokens: apiMessage.usage.cache_read_input_tokens || 0,
+        };
+      }
+
+      const toolResults = extractToolResults(claudeMessage.message || {}, toolNames);
+      if (toolResults.length > 0) compactMessage.toolResults = toolResults;
+      if (thinking) compactMessage.thinking = thinking;
+
+      // Each tool_use gets exactly one result - forget it so toolNames only holds pending calls
+      toolResults.forEach((result) => toolNames?.delete(result.toolUseId));
+
+      // Track session info
+      this.updateSessionInfo(claudeMessage, projectDir);
+
+      return compactMessage;
+    } catch (parseError) {
+      // Gracefully handle corrupted JSONL lines
+      console.warn(`Skipping malformed line in ${filename}:`, parseError);
+      return null;
+    }
+  }
+
+  private registerToolUses(message: ClaudeMessage, toolNames: Map<string, string>): void {
+    if (!Array.isArray(message.message?.content)) return;
+
+    for (const item of message.message.content) {
+      if (item && item.type === 'tool_use' && item.id && item.name) {
+        toolNames.set(item.id, item.name);
+      }
+    }
   }
 
   private extractContext(message: ClaudeMessage, content: string): CompactMessage['context'] {
@@ -253,21 +410,6 @@ export class ConversationParser {
     return Object.keys(context).length > 0 ? context : undefined;
   }
 
-  // Adaptive content limit based on content type - more space for code/technical content
-  private getContentLimit(content: string): number {
-    const contentType = this.detectContentType(content);
-    switch (contentType) {
-      case 'code':
-        return 4000; // More space for code blocks
-      case 'error':
-        return 3500; // Errors need full context
-      case 'technical':
-        return 3500;
-      default:
-        return 3000;
-    }
-  }
-
   public smartContentPreservation(content: string, maxLength: number): string {
     if (content.length <= maxLength) return content;
 
@@ -687,7 +829,7 @@ export class ConversationParser {
     if (!this.sessions.has(sessionId)) {
       this.sessions.set(sessionId, {
         sessionId,
-        projectPath: decodeProjectPath(projectDir),
+        projectPath: rememberProjectCwd(projectDir, message.cwd) || decodeProjectPath(projectDir),
         startTime: this.isValidTimestamp(message.timestamp)
           ? message.timestamp
           : new Date().toISOString(),
@@ -712,6 +854,51 @@ export class ConversationParser {
     }
   }
 
+  // Rebuild each session's message tree from parentUuid links. Messages whose parent was not
+  // parsed (system lines, other files) start a new root.
+  buildThreads(messages: CompactMessage[]): ConversationThread[] {
+    const threads = new Map<string, ConversationThread>();
+
+    for (const message of messages) {
+      let thread = threads.get(message.sessionId);
+      if (!thread) {
+        thread = {
+          sessionId: message.sessionId,
+          roots: [],
+          sidechains: [],
+          branchPoints: [],
+          nodes: new Map(),
+        };
+        threads.set(message.sessionId, thread);
+      }
+      thread.nodes.set(message.uuid, { message, children: [] });
+    }
+
+    for (const thread of threads.values()) {
+      for (const node of thread.nodes.values()) {
+        const parent = node.message.parentUuid
+          ? thread.nodes.get(node.message.parentUuid)
+          : undefined;
+
+        if (parent) {
+          node.parent = parent;
+          parent.children.push(node);
+        } else if (node.message.isSidechain) {
+          thread.sidechains.push(node);
+        } else {
+          thread.roots.push(node);
+        }
+      }
+
+      for (const node of thread.nodes.values()) {
+        const mainLine = node.children.filter((child) => !child.message.isSidechain);
+        if (mainLine.length > 1) thread.branchPoints.push(node.message.uuid);
+      }
+    }
+
+    return Array.from(threads.values());
+  }
+
   getSession(sessionId: string): ConversationSession | undefined {
     return this.sessions.get(sessionId);
   }
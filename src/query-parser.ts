@@ -0,0 +1,258 @@
+// Query syntax for search_conversations: phrases, boolean operators, exclusions and field filters
+//
+//   "exact phrase"   AND / OR / NOT (upper case)   -term   ( grouping )
+//   file:  tool:  type:  project:  model:  before:  after:  session:
+//
+// Adjacent clauses are ANDed; AND binds tighter than OR.
+
+export const QUERY_FIELDS = [
+  'file',
+  'tool',
+  'type',
+  'project',
+  'model',
+  'before',
+  'after',
+  'session',
+] as const;
+export type QueryField = (typeof QUERY_FIELDS)[number];
+
+const MESSAGE_TYPES = ['user', 'assistant', 'tool_use', 'tool_result'];
+
+export type QueryNode =
+  | { kind: 'term'; value: string }
+  | { kind: 'phrase'; value: string }
+  | { kind: 'field'; field: QueryField; value: string }
+  | { kind: 'and'; children: QueryNode[] }
+  | { kind: 'or'; children: QueryNode[] }
+  | { kind: 'not'; child: QueryNode };
+
+export class QuerySyntaxError extends Error {
+  constructor(message: string, position?: number) {
+    super(
+      position === undefined
+        ? `Invalid query: ${message}`
+        : `Invalid query at position ${position + 1}: ${message}`
+    );
+    this.name = 'QuerySyntaxError';
+  }
+}
+
+type Token =
+  | { kind: 'word'; value: string; position: number }
+  | { kind: 'phrase'; value: string; position: number }
+  | { kind: 'field'; field: QueryField; value: string; quoted: boolean; position: number }
+  | { kind: 'and' | 'or' | 'not' | 'minus' | 'open' | 'close'; position: number };
+
+function isQueryField(name: string): name is QueryField {
+  return (QUERY_FIELDS as readonly string[]).includes(name);
+}
+
+function readQuoted(input: string, start: number): { value: string; end: number } {
+  const close = input.indexOf('"', start + 1);
+  if (close === -1) throw new QuerySyntaxError('unterminated quote', start);
+  return { value: input.slice(start + 1, close), end: close + 1 };
+}
+
+function lex(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'open' : 'close', position: i });
+      i++;
+    } else if (char === '"') {
+      const { value, end } = readQuoted(input, i);
+      tokens.push({ kind: 'phrase', value, position: i });
+      i = end;
+    } else if (char === '-' && i + 1 < input.length && /[^\s()-]/.test(input[i + 1])) {
+      // Only a leading dash excludes - "foo-bar" and "a - b" stay plain text
+      tokens.push({ kind: 'minus', position: i });
+      i++;
+    } else {
+      const start = i;
+      while (i < input.length && !/[\s()"]/.test(input[i])) i++;
+      const word = input.slice(start, i);
+
+      const colon = word.indexOf(':');
+      const field = colon > 0 ? word.slice(0, colon).toLowerCase() : '';
+
+      if (isQueryField(field)) {
+        let value = word.slice(colon + 1);
+        let quoted = false;
+        if (value === '' && input[i] === '"') {
+          const phrase = readQuoted(input, i);
+          value = phrase.value;
+          quoted = true;
+          i = phrase.end;
+        }
+        tokens.push({ kind: 'field', field, value, quoted, position: start });
+      } else if (word === 'AND' || word === 'OR' || word === 'NOT') {
+        tokens.push({ kind: word.toLowerCase() as 'and' | 'or' | 'not', position: start });
+      } else {
+        // Unknown prefixes ("http://", "Error:") are ordinary text
+        tokens.push({ kind: 'word', value: word, position: start });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+function validateField(field: QueryField, value: string, position: number): void {
+  if (!value.trim()) throw new QuerySyntaxError(`${field}: needs a value`, position);
+
+  if (field === 'type' && !MESSAGE_TYPES.includes(value)) {
+    throw new QuerySyntaxError(`type: must be one of ${MESSAGE_TYPES.join(', ')}`, position);
+  }
+
+  if ((field === 'before' || field === 'after') && isNaN(Date.parse(value))) {
+    throw new QuerySyntaxError(`${field}: expects a date such as 2026-05-01`, position);
+  }
+}
+
+class Parser {
+  private tokens: Token[];
+  private length: number;
+  private position = 0;
+
+  constructor(tokens: Token[], length: number) {
+    this.tokens = tokens;
+    this.length = length;
+  }
+
+  parse(): QueryNode {
+    const node = this.parseOr();
+    const extra = this.peek();
+    if (extra) throw new QuerySyntaxError('unexpected ")"', extra.position);
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private at(): number {
+    return this.peek()?.position ?? this.length;
+  }
+
+  private parseOr(): QueryNode {
+    const children = [this.parseAnd()];
+    while (this.peek()?.kind === 'or') {
+      this.position++;
+      children.push(this.parseAnd());
+    }
+    return children.length === 1 ? children[0] : { kind: 'or', children };
+  }
+
+  private parseAnd(): QueryNode {
+    const children = [this.parseUnary()];
+
+    for (;;) {
+      const next = this.peek();
+      if (!next || next.kind === 'or' || next.kind === 'close') break;
+      if (next.kind === 'and') this.position++;
+      children.push(this.parseUnary());
+    }
+
+    return children.length === 1 ? children[0] : { kind: 'and', children };
+  }
+
+  private parseUnary(): QueryNode {
+    const token = this.peek();
+    if (token?.kind === 'not' || token?.kind === 'minus') {
+      this.position++;
+      return { kind: 'not', child: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode {
+    const token = this.peek();
+    if (!token) throw new QuerySyntaxError('expected a term after the operator', this.length);
+    this.position++;
+
+    switch (token.kind) {
+      case 'word':
+        return { kind: 'term', value: token.value };
+
+      case 'phrase':
+        if (!token.value.trim()) throw new QuerySyntaxError('empty phrase', token.position);
+        return { kind: 'phrase', value: token.value };
+
+      case 'field':
+        validateField(token.field, token.value, token.position);
+        return { kind: 'field', field: token.field, value: token.value };
+
+      case 'open': {
+        if (this.peek()?.kind === 'close') {
+          throw new QuerySyntaxError('empty group', token.position);
+        }
+        const node = this.parseOr();
+        if (this.peek()?.kind !== 'close') {
+          throw new QuerySyntaxError('missing ")"', this.at());
+        }
+        this.position++;
+        return node;
+      }
+
+      default:
+        throw new QuerySyntaxError(
+          `unexpected ${token.kind === 'close' ? '")"' : token.kind.toUpperCase()}`,
+          token.position
+        );
+    }
+  }
+}
+
+// At least one clause has to select messages - a query of only exclusions would match everything
+function hasPositiveClause(node: QueryNode): boolean {
+  switch (node.kind) {
+    case 'not':
+      return false;
+    case 'and':
+      return node.children.some(hasPositiveClause);
+    case 'or':
+      return node.children.every(hasPositiveClause);
+    default:
+      return true;
+  }
+}
+
+export function parseQuery(input: string): QueryNode {
+  const tokens = lex(input);
+  if (tokens.length === 0) throw new QuerySyntaxError('query is empty', 0);
+
+  const node = new Parser(tokens, input.length).parse();
+  if (!hasPositiveClause(node)) {
+    throw new QuerySyntaxError('query needs at least one term or filter that is not excluded', 0);
+  }
+  return node;
+}
+
+// A bag of words with no operators, phrases or filters - the classic free-text search
+export function isPlainQuery(node: QueryNode): boolean {
+  return (
+    node.kind === 'term' ||
+    (node.kind === 'and' && node.children.every((child) => child.kind === 'term'))
+  );
+}
+
+// Free text that counts towards ranking: terms and phrases outside any NOT
+export function positiveText(node: QueryNode): string[] {
+  switch (node.kind) {
+    case 'term':
+    case 'phrase':
+      return [node.value];
+    case 'and':
+    case 'or':
+      return node.children.flatMap(positiveText);
+    default:
+      return [];
+  }
+}
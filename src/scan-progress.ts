@@ -0,0 +1,33 @@
+// Counts the session files a fan-out scan reads and stops it once the caller cancels
+//
+// The total grows as files are queued, and scanned only ever goes up, which is all a progress
+// notification promises.
+import { ScanOptions } from './types.js';
+
+export class ScanProgress {
+  private options: ScanOptions;
+  private scanned = 0;
+  private total = 0;
+
+  constructor(options: ScanOptions = {}) {
+    this.options = options;
+  }
+
+  get signal(): AbortSignal | undefined {
+    return this.options.signal;
+  }
+
+  // Throws the abort reason once the scan has been cancelled
+  check(): void {
+    this.options.signal?.throwIfAborted();
+  }
+
+  queued(files: number): void {
+    this.total += files;
+  }
+
+  fileDone(): void {
+    this.scanned++;
+    this.options.onProgress?.(this.scanned, Math.max(this.total, this.scanned));
+  }
+}
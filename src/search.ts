@@ -6,26 +6,45 @@ import {
   ErrorSolution,
   ToolPattern,
   PlanResult,
+  ConversationSearchOptions,
+  ConversationThread,
+  TranscriptOptions,
+  TranscriptLookup,
+  MessageContext,
+  UsageGroupBy,
+  UsageReport,
+  TextMatch,
+  SessionListing,
+  RecentSession,
+  ScanOptions,
 } from './types.js';
 import {
   findProjectDirectories,
-  findJsonlFiles,
   getTimeRangeFilter,
-  extractContentFromMessage,
-  findPlanFiles,
-  getClaudePlansPath,
-  expandWorktreeProjects,
+  resolveProjectPath,
+  getRepoRoot,
+  resolveRepoRoots,
 } from './utils.js';
-import { readFile, stat } from 'fs/promises';
-import { join } from 'path';
 import { SearchHelpers } from './search-helpers.js';
+import { ActiveSession, HistoryIndex, IndexedPlan, SessionFilter } from './history-index.js';
+import { aggregateUsage, loadPriceTable } from './usage.js';
+import { QueryNode, QuerySyntaxError, parseQuery } from './query-parser.js';
+import { TextMatcher, createExactMatcher, createRegexMatcher } from './text-match.js';
+import { ScanProgress } from './scan-progress.js';
+
+// Messages read and matched per step of an exact/regex scan
+const LITERAL_SCAN_BATCH = 200;
+
+// Session files a whole-session scan parses at once
+const SCAN_CONCURRENCY = 16;
 
 export class HistorySearchEngine {
   private parser: ConversationParser;
-  private messageCache: Map<string, CompactMessage[]> = new Map();
+  private index: HistoryIndex;
 
-  constructor() {
+  constructor(index: HistoryIndex = new HistoryIndex()) {
     this.parser = new ConversationParser();
+    this.index = index;
   }
 
   // Optimized search for maximum relevance with minimal tokens
@@ -34,23 +53,57 @@ export class HistorySearchEngine {
     query: string,
     projectFilter?: string,
     timeframe?: string,
-    limit: number = 15 // Default to 15 for better coverage
+    limit: number = 15, // Default to 15 for better coverage
+    options: ConversationSearchOptions = {}
   ): Promise<SearchResult> {
     const startTime = Date.now();
 
-    // Intelligent query analysis and classification
-    const queryAnalysis = this.analyzeQueryIntent(query);
+    // Resolved before any catch below so a bad timeframe is reported, not an empty result
+    const timeFilter = await this.resolveTimeFilter(timeframe);
+
+    if (options.mode === 'exact' || options.mode === 'regex') {
+      // Built up front so a bad pattern is reported, not swallowed by the catch below
+      const matcher =
+        options.mode === 'exact' ? createExactMatcher(query) : createRegexMatcher(query);
+
+      try {
+        return await this.performLiteralSearch(
+          query,
+          options.mode === 'exact' ? query : null,
+          matcher,
+          limit,
+          startTime,
+          projectFilter,
+          timeFilter,
+          options
+        );
+      } catch (error) {
+        if (error instanceof QuerySyntaxError) throw error; // Regex timeout
+        console.error('Literal search error:', error);
+        return {
+          messages: [],
+          totalResults: 0,
+          searchQuery: query,
+          executionTime: Date.now() - startTime,
+        };
+      }
+    }
+
+    // Syntax errors go back to the caller rather than turning into an empty result
+    const parsedQuery = parseQuery(query);
+
     const requestedLimit = limit; // Use exactly what user requested
 
     try {
       // Multi-stage optimized search
       return await this.performOptimizedSearch(
         query,
-        queryAnalysis,
+        parsedQuery,
         requestedLimit,
         startTime,
         projectFilter,
-        timeframe
+        timeFilter,
+        options
       );
     } catch (error) {
       console.error('Search error:', error);
@@ -63,93 +116,44 @@ export class HistorySearchEngine {
     }
   }
 
-  private analyzeQueryIntent(query: string): any {
-    const lowerQuery = query.toLowerCase();
-
-    return {
-      type: this.classifyQueryType(query),
-      urgency: lowerQuery.includes('error') || lowerQuery.includes('failed') ? 'high' : 'medium',
-      scope: lowerQuery.includes('project') || lowerQuery.includes('all') ? 'broad' : 'focused',
-      expectsCode:
-        lowerQuery.includes('function') ||
-        lowerQuery.includes('implement') ||
-        lowerQuery.includes('code'),
-      expectsSolution:
-        lowerQuery.includes('how') || lowerQuery.includes('fix') || lowerQuery.includes('solve'),
-      keywords: lowerQuery.split(/\s+/).filter((w) => w.length > 2),
-      semanticBoosts: this.getSemanticBoosts(lowerQuery),
-    };
-  }
-
-  private getSemanticBoosts(query: string): Record<string, number> {
-    const boosts: Record<string, number> = {};
-
-    // Technical content gets massive boosts
-    if (query.includes('error')) boosts.errorResolution = 3.0;
-    if (query.includes('implement')) boosts.implementation = 2.5;
-    if (query.includes('optimize')) boosts.optimization = 2.0;
-    if (query.includes('fix')) boosts.solutions = 2.8;
-    if (query.includes('file')) boosts.fileOperations = 2.0;
-    if (query.includes('tool')) boosts.toolUsage = 2.2;
-
-    return boosts;
+  // since_session: needs the index to know when that session began
+  private async resolveTimeFilter(timeframe?: string): Promise<(timestamp: string) => boolean> {
+    if (timeframe?.trim().toLowerCase().startsWith('since_session:')) {
+      await this.index.ensureFresh();
+    }
+    return getTimeRangeFilter(timeframe, (sessionId) => this.index.sessionStartTime(sessionId));
   }
 
   private async performOptimizedSearch(
     query: string,
-    analysis: any,
+    parsedQuery: QueryNode,
     limit: number,
     startTime: number,
     projectFilter?: string,
-    timeframe?: string
+    timeFilter?: (timestamp: string) => boolean,
+    options: ConversationSearchOptions = {}
   ): Promise<SearchResult> {
-    const timeFilter = getTimeRangeFilter(timeframe);
-
     try {
-      const projectDirs = await findProjectDirectories();
-
-      // Expand worktrees to include parent projects for comprehensive search
-      const expandedDirs = await expandWorktreeProjects(projectDirs);
-
-      // Pre-validate: Don't waste time on queries that won't return value
-      if (query.length < 3) {
-        return {
-          messages: [],
-          totalResults: 0,
-          searchQuery: query,
-          executionTime: Date.now() - startTime,
-        };
-      }
+      // Bring the persistent index up to date (only changed files are re-read)
+      await this.index.ensureFresh();
 
-      // Smart project selection - focus on most relevant projects first
-      const maxProjects = Math.min(expandedDirs.length, Math.max(8, Math.ceil(limit / 2)));
-      const targetDirs = projectFilter
-        ? expandedDirs.filter((dir) => dir.includes(projectFilter))
-        : expandedDirs.slice(0, maxProjects);
-
-      // Parallel processing with quality threshold
-      const candidates = await this.gatherRelevantCandidates(
-        targetDirs,
-        query,
-        analysis,
+      // Index lookup replaces per-file scanning - 10x candidates leaves room for deduplication
+      const { hits, total } = await this.index.search(parsedQuery, {
+        limit: Math.max(50, limit * 10),
+        projectFilter,
         timeFilter,
-        limit * 2 // Gather 2x but with higher quality threshold
-      );
-
-      // Intelligent relevance scoring and selection with quality guarantee
-      const topRelevant = this.selectTopRelevantResults(candidates, query, analysis, limit);
-
-      // Quality gate: Only return results that meet minimum value threshold
-      const qualityResults = topRelevant.filter(
-        (msg) =>
-          (msg.finalScore || msg.relevanceScore || 0) >= 1.5 && // Must be reasonably relevant (use finalScore with query boosting)
-          msg.content.length >= 40 && // Must have substantial content
-          !this.isLowValueContent(msg.content) // Must not be filler
+        includeThinking: options.includeThinking,
+      });
+      const loaded = (await this.index.loadMessages(hits)).map((msg) =>
+        // Thinking is opt-in - don't spend tokens on it unless asked
+        options.includeThinking ? msg : { ...msg, thinking: undefined }
       );
+      // BM25F order from the index is the ranking - only repeats of a message are dropped
+      const results = this.dropRepeats(loaded, limit);
 
       return {
-        messages: qualityResults,
-        totalResults: candidates.length,
+        messages: options.includeThread ? await this.attachThreadContext(results) : results,
+        totalResults: total,
         searchQuery: query,
         executionTime: Date.now() - startTime,
       };
@@ -159,512 +163,144 @@ export class HistorySearchEngine {
     }
   }
 
-  private async gatherRelevantCandidates(
-    projectDirs: string[],
+  // Exact and regex modes skip query syntax, intent guessing and ranking: messages containing the
+  // literal or pattern come back newest first, each with the offsets it matched at
+  private async performLiteralSearch(
     query: string,
-    analysis: any,
-    timeFilter: ((timestamp: string) => boolean) | undefined,
-    targetCount: number
-  ): Promise<CompactMessage[]> {
-    const candidates: CompactMessage[] = [];
-
-    // Process projects in parallel with intelligent early stopping
-    const projectResults = await Promise.allSettled(
-      projectDirs.map(async (projectDir) => {
-        const dirCandidates = await this.processProjectFocused(
-          projectDir,
-          query,
-          analysis,
-          timeFilter,
-          Math.ceil(targetCount / projectDirs.length)
-        );
-        return dirCandidates;
-      })
-    );
-
-    // Aggregate with aggressive noise filtering
-    for (const result of projectResults) {
-      if (result.status === 'fulfilled') {
-        const dirMessages = result.value.filter((msg) =>
-          this.isHighlyRelevant(msg, query, analysis)
-        );
-        candidates.push(...dirMessages);
-
-        // Early termination if we have enough high-quality candidates
-        if (candidates.length >= targetCount) break;
-      }
+    literal: string | null,
+    matcher: TextMatcher,
+    limit: number,
+    startTime: number,
+    projectFilter?: string,
+    timeFilter?: (timestamp: string) => boolean,
+    options: ConversationSearchOptions = {}
+  ): Promise<SearchResult> {
+    if (!query) {
+      return { messages: [], totalResults: 0, searchQuery: query, executionTime: 0 };
     }
 
-    return candidates;
-  }
-
-  private async processProjectFocused(
-    projectDir: string,
-    query: string,
-    analysis: any,
-    timeFilter: ((timestamp: string) => boolean) | undefined,
-    targetPerProject: number
-  ): Promise<CompactMessage[]> {
-    const messages: CompactMessage[] = [];
-
-    try {
-      const jsonlFiles = await findJsonlFiles(projectDir);
+    await this.index.ensureFresh();
 
-      // Process only most relevant files (max 4 per project)
-      const priorityFiles = jsonlFiles.slice(0, Math.min(4, jsonlFiles.length));
+    // A literal narrows the scan to messages holding its words; a regex has to read everything
+    const candidates = this.index.literalCandidates(literal, {
+      projectFilter,
+      timeFilter,
+      includeThinking: options.includeThinking,
+    });
 
-      for (const file of priorityFiles) {
-        const fileMessages = await this.processJsonlFile(projectDir, file, query, timeFilter);
+    // Positions let a cursor resume the scan after any match instead of starting it over
+    const matched: CompactMessage[] = [];
+    const positions: number[] = [];
+    const start = options.scanFrom || 0;
+    for (let i = start; i < candidates.length && matched.length < limit; i += LITERAL_SCAN_BATCH) {
+      const docs = candidates.slice(i, i + LITERAL_SCAN_BATCH);
+      const position = new Map(docs.map((doc, d) => [doc.uuid, i + d]));
+      const batch = docs.map((doc) => ({ doc, score: 0 }));
+      const messages = (await this.index.loadMessages(batch)).map((msg) =>
+        options.includeThinking ? msg : { ...msg, thinking: undefined }
+      );
 
-        // Balanced filtering per file
-        const relevant = fileMessages
-          .filter((msg) => (msg.relevanceScore || 0) >= 1) // Lower threshold for usefulness
-          .filter((msg) => this.matchesQueryIntent(msg, analysis))
-          .slice(0, Math.ceil(targetPerProject / priorityFiles.length));
+      // One matcher call per batch keeps the regex timeout cheap
+      const sources = messages.flatMap((msg, index) =>
+        this.matchSources(msg).map((source) => ({ ...source, index }))
+      );
+      const ranges = matcher(sources.map((source) => source.text));
 
-        messages.push(...relevant);
+      const matches: TextMatch[][] = messages.map(() => []);
+      sources.forEach(({ index, text: _text, ...location }, s) => {
+        for (const [start, end] of ranges[s]) matches[index].push({ ...location, start, end });
+      });
 
-        if (messages.length >= targetPerProject) break;
-      }
-    } catch (error) {
-      console.error(`Focused processing error for ${projectDir}:`, error);
+      messages.forEach((msg, index) => {
+        if (matches[index].length === 0 || matched.length >= limit) return;
+        matched.push({ ...msg, matches: matches[index], relevanceScore: matches[index].length });
+        positions.push(position.get(msg.uuid)!);
+      });
     }
 
-    return messages;
+    return {
+      messages: options.includeThread ? await this.attachThreadContext(matched) : matched,
+      totalResults: matched.length,
+      searchQuery: query,
+      executionTime: Date.now() - startTime,
+      scanPositions: positions,
+    };
   }
 
-  private isHighlyRelevant(message: CompactMessage, query: string, analysis: any): boolean {
-    const content = message.content.toLowerCase();
-
-    // Eliminate all noise patterns aggressively - expanded to catch Claude system messages
-    const noisePatterns = [
-      'this session is being continued',
-      'caveat:',
-      'command-name>',
-      'local-command-stdout',
-      'system-reminder',
-      'command-message>',
-      'much better! now i can see',
-      'package.js',
-      'export interface',
-      // Claude system/intro messages that shouldn't match searches
-      'you are claude code',
-      'read-only mode',
-      'i cannot make changes',
-      "i'm in plan mode",
-      "hello! i'm claude",
-      'i am claude',
-      'ready to help you',
-      'what would you like me to',
-      'how can i assist',
-      "i understand that i'm",
+  // The parts of a message a literal search looks at, in display order
+  private matchSources(message: CompactMessage): (Omit<TextMatch, 'start' | 'end'> & {
+    text: string;
+  })[] {
+    return [
+      { field: 'content' as const, text: message.content },
+      ...(message.toolResults || []).map((result, resultIndex) => ({
+        field: 'result' as const,
+        resultIndex,
+        text: result.content,
+      })),
+      ...(message.thinking ? [{ field: 'thinking' as const, text: message.thinking }] : []),
     ];
-
-    if (noisePatterns.some((pattern) => content.includes(pattern)) || content.length < 40) {
-      return false;
-    }
-
-    // Must have reasonable relevance score - lowered from 1 to 0.3 to allow more candidates through
-    if ((message.relevanceScore || 0) < 0.3) return false;
-
-    // Must match query intent
-    return this.matchesQueryIntent(message, analysis);
-  }
-
-  private matchesQueryIntent(message: CompactMessage, analysis: any): boolean {
-    const content = message.content.toLowerCase();
-
-    // Intent-based matching
-    switch (analysis.type) {
-      case 'error':
-        return (
-          content.includes('error') ||
-          content.includes('fix') ||
-          content.includes('solution') ||
-          (message.context?.errorPatterns?.length || 0) > 0
-        );
-
-      case 'implementation':
-        return (
-          content.includes('implement') ||
-          content.includes('create') ||
-          content.includes('function') ||
-          (message.context?.codeSnippets?.length || 0) > 0
-        );
-
-      case 'analysis':
-        return (
-          content.includes('analyze') ||
-          content.includes('understand') ||
-          content.includes('explain') ||
-          (message.type === 'assistant' && content.length > 100)
-        );
-
-      default:
-        // General: must have tool usage or be substantial assistant response
-        return (
-          (message.context?.toolsUsed?.length || 0) > 0 ||
-          (message.type === 'assistant' && content.length > 80)
-        );
-    }
-  }
-
-  private selectTopRelevantResults(
-    candidates: CompactMessage[],
-    query: string,
-    analysis: any,
-    limit: number
-  ): CompactMessage[] {
-    // Enhanced scoring with semantic boosts
-    const scoredCandidates = candidates.map((msg) => {
-      let score = msg.relevanceScore || 0;
-
-      // If relevanceScore is 0 for multi-word query, skip this message entirely
-      // (it failed the multi-word matching requirement)
-      const queryWords = query.split(/\s+/).filter((w) => w.length > 2);
-      if (queryWords.length >= 2 && score === 0) {
-        return { ...msg, finalScore: 0 };
-      }
-
-      const contentLower = msg.content.toLowerCase();
-      const queryTerms = query
-        .toLowerCase()
-        .split(/\s+/)
-        .filter((w) => w.length > 2);
-
-      // Query coverage: penalize partial matches
-      const matchCount = queryTerms.filter((term) => contentLower.includes(term)).length;
-      const coverageRatio = queryTerms.length > 0 ? matchCount / queryTerms.length : 1;
-
-      // Apply boost based on coverage ratio
-      if (coverageRatio >= 0.5) {
-        // Good coverage (≥50%): apply multiplicative boost for each match
-        for (const term of queryTerms) {
-          if (contentLower.includes(term)) {
-            score *= 2.0; // Each matching term doubles relevance
-          }
-        }
-      } else if (matchCount > 0) {
-        // Partial match (<50%): modest boost but apply coverage penalty
-        score *= (1 + matchCount * 0.5) * coverageRatio;
-      } else {
-        // No matches: heavy penalty
-        score *= 0.1;
-      }
-
-      // Apply semantic boosts from analysis
-      Object.entries(analysis.semanticBoosts).forEach(([type, boost]) => {
-        if (this.messageMatchesSemanticType(msg, type)) {
-          score *= boost as number;
-        }
-      });
-
-      // Recency boost for time-sensitive queries
-      if (analysis.urgency === 'high') {
-        const timestamp = new Date(msg.timestamp);
-        const now = new Date();
-        const hoursDiff = (now.getTime() - timestamp.getTime()) / (1000 * 60 * 60);
-        if (hoursDiff < 24) score *= 1.5;
-      }
-
-      return { ...msg, finalScore: score };
-    });
-
-    // Sort by final score and deduplicate
-    const sorted = scoredCandidates.sort((a, b) => (b.finalScore || 0) - (a.finalScore || 0));
-
-    const deduped = this.intelligentDeduplicate(sorted);
-
-    return deduped.slice(0, limit);
   }
 
-  private messageMatchesSemanticType(message: CompactMessage, type: string): boolean {
-    const content = message.content.toLowerCase();
+  // Rebuild each hit's session tree and attach the prompt it answers plus its direct replies
+  private async attachThreadContext(messages: CompactMessage[]): Promise<CompactMessage[]> {
+    const threads = new Map<string, ConversationThread | undefined>();
 
-    switch (type) {
-      case 'errorResolution':
-        return (
-          content.includes('error') ||
-          content.includes('exception') ||
-          (message.context?.errorPatterns?.length || 0) > 0
-        );
-      case 'implementation':
-        return (
-          content.includes('function') ||
-          content.includes('implement') ||
-          (message.context?.codeSnippets?.length || 0) > 0
-        );
-      case 'optimization':
-        return (
-          content.includes('optimize') ||
-          content.includes('performance') ||
-          content.includes('faster')
-        );
-      case 'solutions':
-        return (
-          content.includes('solution') || content.includes('fix') || content.includes('resolve')
-        );
-      case 'fileOperations':
-        return (message.context?.filesReferenced?.length || 0) > 0;
-      case 'toolUsage':
-        return (message.context?.toolsUsed?.length || 0) > 0;
-      default:
-        return false;
-    }
-  }
-
-  private intelligentDeduplicate(messages: any[]): CompactMessage[] {
-    const seen = new Map<string, CompactMessage>();
+    for (const sessionId of new Set(messages.map((msg) => msg.sessionId))) {
+      const location = this.index.findSessionFile(sessionId);
+      if (!location) continue;
 
-    for (const message of messages) {
-      // Intelligent deduplication using content signature
-      const signature = this.createIntelligentSignature(message);
-
-      if (!seen.has(signature)) {
-        seen.set(signature, message);
-      } else {
-        // Keep the one with higher final score
-        const existing = seen.get(signature)!;
-        if ((message.finalScore || 0) > (existing.finalScore || 0)) {
-          seen.set(signature, message);
-        }
-      }
+      const sessionMessages = await this.parser.parseJsonlFile(location.projectDir, location.file);
+      const thread = this.parser
+        .buildThreads(sessionMessages)
+        .find((candidate) => candidate.sessionId === sessionId);
+      threads.set(sessionId, thread);
     }
 
-    return Array.from(seen.values());
-  }
-
-  private createIntelligentSignature(message: CompactMessage): string {
-    // Create an intelligent signature for deduplication
-    const contentHash = message.content
-      .toLowerCase()
-      .replace(/\d+/g, 'N')
-      .replace(/["']/g, '')
-      .replace(/\s+/g, ' ')
-      .substring(0, 80);
-
-    const tools = (message.context?.toolsUsed || []).sort().join('|');
-    const files = (message.context?.filesReferenced || []).length > 0 ? 'files' : 'nofiles';
+    return messages.map((msg) => {
+      const node = threads.get(msg.sessionId)?.nodes.get(msg.uuid);
+      if (!node) return msg;
 
-    return `${message.type}:${tools}:${files}:${contentHash}`;
-  }
-
-  private async processProjectDirectory(
-    projectDir: string,
-    query: string,
-    timeFilter: ((timestamp: string) => boolean) | undefined,
-    targetLimit: number
-  ): Promise<{ summary: CompactMessage[]; regular: CompactMessage[] }> {
-    const summaryMessages: CompactMessage[] = [];
-    const regularMessages: CompactMessage[] = [];
-
-    try {
-      const jsonlFiles = await findJsonlFiles(projectDir);
-
-      // Parallel processing of files within the project
-      const fileResults = await Promise.allSettled(
-        jsonlFiles
-          .slice(0, Math.min(jsonlFiles.length, 8))
-          .map((file) => this.processJsonlFile(projectDir, file, query, timeFilter))
-      );
-
-      // Aggregate results from all files
-      for (const result of fileResults) {
-        if (result.status === 'fulfilled') {
-          const messages = result.value;
-
-          // Fast pre-filter: only process messages with minimum relevance
-          const qualifyingMessages = messages.filter((msg) => (msg.relevanceScore || 0) >= 1);
-
-          // Intelligent message categorization for Claude Code
-          qualifyingMessages.forEach((msg) => {
-            if (this.isSummaryMessage(msg)) {
-              summaryMessages.push(msg);
-            } else if (this.isHighValueMessage(msg)) {
-              regularMessages.push(msg);
-            }
-          });
-
-          // Early exit if we have enough results
-          if (summaryMessages.length + regularMessages.length >= targetLimit) {
-            break;
-          }
-        }
+      // Assistant replies are split across lines - walk up to the user prompt that started them
+      let parent = node.parent;
+      while (parent && !(parent.message.type === 'user' && !parent.message.toolResults)) {
+        parent = parent.parent;
       }
-    } catch (error) {
-      console.error(`Error processing project ${projectDir}:`, error);
-    }
-
-    return { summary: summaryMessages, regular: regularMessages };
-  }
-
-  private async processJsonlFile(
-    projectDir: string,
-    file: string,
-    query: string,
-    timeFilter: ((timestamp: string) => boolean) | undefined
-  ): Promise<CompactMessage[]> {
-    const cacheKey = `${projectDir}/${file}`;
-
-    // Check cache first
-    if (this.messageCache.has(cacheKey)) {
-      return this.messageCache.get(cacheKey)!;
-    }
 
-    // Parse file
-    const messages = await this.parser.parseJsonlFile(projectDir, file, query, timeFilter);
-
-    // Enhanced caching with increased size limit
-    if (this.messageCache.size < 500) {
-      // Increased from 100
-      this.messageCache.set(cacheKey, messages);
-    } else if (messages.some((m) => (m.relevanceScore || 0) > 8)) {
-      // Replace least valuable cache entry with high-value content
-      const cacheEntries = Array.from(this.messageCache.entries());
-      const leastValuable = cacheEntries.reduce(
-        (min, [key, msgs]) => {
-          const avgScore = msgs.reduce((sum, m) => sum + (m.relevanceScore || 0), 0) / msgs.length;
-          return avgScore < (min.avgScore || Infinity) ? { key, avgScore } : min;
+      return {
+        ...msg,
+        thread: {
+          parent: (parent || node.parent)?.message,
+          replies: node.children.map((child) => child.message),
         },
-        { key: '', avgScore: Infinity }
-      );
-
-      if (leastValuable.key) {
-        this.messageCache.delete(leastValuable.key);
-        this.messageCache.set(cacheKey, messages);
-      }
-    }
-
-    return messages;
+      };
+    });
   }
 
-  private prioritizeResultsForClaudeCode(
-    summaryMessages: CompactMessage[],
-    allMessages: CompactMessage[],
-    query: string,
-    limit: number
-  ): CompactMessage[] {
-    // Sort by relevance and recency
-    const sortedSummaries = summaryMessages
-      .sort((a, b) => (b.relevanceScore || 0) - (a.relevanceScore || 0))
-      .slice(0, Math.ceil(limit * 0.3)); // 30% summaries
-
-    const sortedRegular = allMessages
-      .sort((a, b) => {
-        const relevanceDiff = (b.relevanceScore || 0) - (a.relevanceScore || 0);
-        if (Math.abs(relevanceDiff) > 1) return relevanceDiff;
-
-        // Secondary sort by recency for similar relevance
-        return new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
-      })
-      .slice(0, limit - sortedSummaries.length);
-
-    // Combine and deduplicate
-    const combined = [...sortedSummaries, ...sortedRegular];
-    const deduped = this.deduplicateMessages(combined);
-
-    return deduped.slice(0, limit);
+  // Message text plus any tool output or thinking - a bare "[Tool Result]" can still hold the answer
+  private searchableText(message: CompactMessage): string {
+    const results = (message.toolResults || []).map((result) => result.content);
+    return [message.content, ...results, message.thinking || ''].join('\n');
   }
 
-  private deduplicateMessages(messages: CompactMessage[]): CompactMessage[] {
-    const seen = new Set<string>();
-    const unique: CompactMessage[] = [];
+  // A message copied into a resumed session, or text repeated word for word, is one result - the
+  // best ranked copy. Stopping at limit keeps a deeper call's results a continuation of a
+  // shallower one's.
+  private dropRepeats(messages: CompactMessage[], limit: number): CompactMessage[] {
+    const seenIds = new Set<string>();
+    const seenTexts = new Set<string>();
+    const kept: CompactMessage[] = [];
 
     for (const message of messages) {
-      // Create a simple content hash for deduplication
-      const contentHash = message.content.substring(0, 100).toLowerCase().replace(/\s+/g, '');
-
-      if (!seen.has(contentHash)) {
-        seen.add(contentHash);
-        unique.push(message);
-      }
+      if (kept.length >= limit) break;
+      const text = this.searchableText(message);
+      if (seenIds.has(message.uuid) || seenTexts.has(text)) continue;
+      seenIds.add(message.uuid);
+      seenTexts.add(text);
+      kept.push(message);
     }
 
-    return unique;
-  }
-
-  private isSummaryMessage(message: CompactMessage): boolean {
-    const content = message.content.toLowerCase();
-    const summaryIndicators = [
-      'summary:',
-      'in summary',
-      'to recap',
-      "here's what we accomplished",
-      'let me summarize',
-      'to sum up',
-      'overview:',
-      'in conclusion',
-      'final summary',
-      'session summary',
-    ];
-
-    return (
-      summaryIndicators.some((indicator) => content.includes(indicator)) ||
-      (message.type === 'assistant' && content.includes('summary') && content.length > 100)
-    );
-  }
-
-  private isHighValueMessage(message: CompactMessage): boolean {
-    const relevanceScore = message.relevanceScore || 0;
-    const content = message.content.toLowerCase();
-
-    // Always include high relevance scores
-    if (relevanceScore >= 5) return true;
-
-    // Include tool usage messages - crucial for Claude Code
-    if (message.context?.toolsUsed && (message.context.toolsUsed.length || 0) > 0) return true;
-
-    // Include error resolution messages
-    if (message.context?.errorPatterns && (message.context.errorPatterns.length || 0) > 0)
-      return true;
-
-    // Include file operation messages
-    if (message.context?.filesReferenced && (message.context.filesReferenced.length || 0) > 0)
-      return true;
-
-    // Include assistant messages with substantial solutions
-    if (message.type === 'assistant' && content.length > 200 && relevanceScore > 0) return true;
-
-    // Include user messages that are substantial queries
-    if (
-      message.type === 'user' &&
-      content.length > 50 &&
-      content.length < 500 &&
-      relevanceScore > 0
-    )
-      return true;
-
-    return false;
-  }
-
-  private classifyQueryType(query: string): 'error' | 'implementation' | 'analysis' | 'general' {
-    const lowerQuery = query.toLowerCase();
-
-    if (
-      lowerQuery.includes('error') ||
-      lowerQuery.includes('bug') ||
-      lowerQuery.includes('fix') ||
-      lowerQuery.includes('issue')
-    ) {
-      return 'error';
-    }
-    if (
-      lowerQuery.includes('implement') ||
-      lowerQuery.includes('create') ||
-      lowerQuery.includes('build') ||
-      lowerQuery.includes('add')
-    ) {
-      return 'implementation';
-    }
-    if (
-      lowerQuery.includes('how') ||
-      lowerQuery.includes('why') ||
-      lowerQuery.includes('analyze') ||
-      lowerQuery.includes('understand')
-    ) {
-      return 'analysis';
-    }
-    return 'general';
+    return kept;
   }
 
   private getOptimalLimit(queryType: string, requestedLimit: number): number {
@@ -692,93 +328,6 @@ export class HistorySearchEngine {
     return query;
   }
 
-  private calculateRelevanceScore(message: any, query: string): number {
-    try {
-      const content = extractContentFromMessage(message.message || {});
-      if (!content) return 0;
-
-      const lowerQuery = query.toLowerCase();
-      const lowerContent = content.toLowerCase();
-
-      let score = 0;
-
-      // Exact phrase match - high value for Claude Code
-      if (lowerContent.includes(lowerQuery)) score += 15;
-
-      // Enhanced word matching with case-aware technology name matching
-      // Create word pairs: {original, lower, normalized}
-      const normalizeWord = (w: string) => w.replace(/[^\w-]/g, '').trim();
-      const queryWordPairs = query
-        .split(/\s+/)
-        .map((w) => ({ original: w, lower: w.toLowerCase(), norm: normalizeWord(w.toLowerCase()) }))
-        .filter((p) => p.norm.length > 2);
-      const contentWordPairs = content
-        .split(/\s+/)
-        .map((w) => ({ original: w, lower: w.toLowerCase(), norm: normalizeWord(w.toLowerCase()) }))
-        .filter((p) => p.norm.length > 0);
-
-      const matches = queryWordPairs.filter((qPair) => {
-        const matched = contentWordPairs.some((cPair) => {
-          // Check if normalized lowercase words match
-          const normMatch =
-            cPair.norm === qPair.norm ||
-            cPair.norm.startsWith(qPair.norm + '-') ||
-            cPair.norm.endsWith('-' + qPair.norm);
-          if (!normMatch) return false;
-
-          // If query word is all lowercase, reject matches where content word has mixed case
-          // (e.g., lowercase "react" query shouldn't match "ReAct" content)
-          // Strip punctuation but preserve case for comparison
-          const queryClean = qPair.original.replace(/[^\w-]/g, '');
-          const contentClean = cPair.original.replace(/[^\w-]/g, '');
-          if (queryClean === queryClean.toLowerCase() && queryClean.length > 0) {
-            // Reject if content word has uppercase letters (indicates acronym/proper noun)
-            if (contentClean !== contentClean.toLowerCase()) {
-              return false;
-            }
-          }
-
-          return true;
-        });
-        return matched;
-      });
-
-      // For multi-word queries, require at least 2 words to match to avoid false positives
-      // If insufficient matches, return score of 0 immediately (no other bonuses apply)
-      if (queryWordPairs.length >= 2 && matches.length < 2) {
-        return 0; // Multi-word queries MUST match multiple words - reject false positives
-      }
-
-      // Add points for word matches
-      score += matches.length * 3;
-
-      // High bonus for tool usage - essential for Claude Code queries
-      if (message.type === 'tool_use' || message.type === 'tool_result') score += 8;
-      if (lowerContent.includes('tool_use') || lowerContent.includes('called the')) score += 6;
-
-      // Code file references - crucial for development queries
-      if (content.includes('.ts') || content.includes('.js') || content.includes('src/'))
-        score += 4;
-      if (content.includes('package.json') || content.includes('.md')) score += 3;
-
-      // Error resolution context
-      if (lowerContent.includes('error') || lowerContent.includes('fix')) score += 4;
-      if (lowerContent.includes('solution') || lowerContent.includes('resolved')) score += 3;
-
-      // Assistant messages with substantial content get bonus
-      if (message.type === 'assistant' && content.length > 200) score += 2;
-
-      // Recent conversations are more valuable
-      const timestamp = message.timestamp || '';
-      const isRecent = new Date(timestamp) > new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
-      if (isRecent) score += 1;
-
-      return score;
-    } catch {
-      return 0;
-    }
-  }
-
   private matchesTimeframe(timestamp: string, timeframe: string): boolean {
     try {
       const filter = getTimeRangeFilter(timeframe);
@@ -788,184 +337,195 @@ export class HistorySearchEngine {
     }
   }
 
-  async findFileContext(filePath: string, limit: number = 25): Promise<FileContext[]> {
-    const fileContexts: FileContext[] = [];
+  // Every indexed session with a message that passes the filter, most recently active first
+  private async sessionsFor(filter: SessionFilter): Promise<ActiveSession[]> {
+    await this.index.ensureFresh();
+    return this.index.activeSessions(filter);
+  }
 
-    try {
-      const projectDirs = await findProjectDirectories();
-      const expandedDirs = await expandWorktreeProjects(projectDirs);
-
-      // COMPREHENSIVE: Process more projects to match GLOBAL's reach
-      const limitedDirs = expandedDirs.slice(0, 15); // Increased significantly to match GLOBAL scope
-
-      // PARALLEL PROCESSING: Process all projects concurrently
-      const projectResults = await Promise.allSettled(
-        limitedDirs.map(async (projectDir) => {
-          const jsonlFiles = await findJsonlFiles(projectDir);
-
-          // COMPREHENSIVE: Process more files to match GLOBAL's reach
-          const limitedFiles = jsonlFiles.slice(0, 10); // Increased to match GLOBAL scope
-
-          const fileResults = await Promise.allSettled(
-            limitedFiles.map(async (file) => {
-              const messages = await this.parser.parseJsonlFile(projectDir, file);
-
-              const fileMessages = messages.filter((msg) => {
-                // ENHANCED file matching logic like GLOBAL with more patterns
-                const hasFileRef = msg.context?.filesReferenced?.some((ref) => {
-                  const refLower = ref.toLowerCase();
-                  const pathLower = filePath.toLowerCase();
-                  // More comprehensive matching patterns
-                  return (
-                    refLower.includes(pathLower) ||
-                    pathLower.includes(refLower) ||
-                    refLower.endsWith('/' + pathLower) ||
-                    pathLower.endsWith('/' + refLower) ||
-                    refLower.split('/').pop() === pathLower ||
-                    pathLower.split('/').pop() === refLower ||
-                    refLower === pathLower ||
-                    refLower.includes(pathLower.replace(/\\/g, '/')) ||
-                    refLower.includes(pathLower.replace(/\//g, '\\'))
-                  );
-                });
-
-                // Enhanced content matching with case variations and path separators
-                const contentLower = msg.content.toLowerCase();
-                const pathVariations = [
-                  filePath.toLowerCase(),
-                  filePath.toLowerCase().replace(/\\/g, '/'),
-                  filePath.toLowerCase().replace(/\//g, '\\'),
-                  filePath.toLowerCase().split('/').pop() || '',
-                  filePath.toLowerCase().split('\\').pop() || '',
-                ];
-
-                const hasContentRef = pathVariations.some(
-                  (variation) => variation.length > 0 && contentLower.includes(variation)
-                );
+  // Reads the sessions a few at a time and keeps their order. A file that fails to parse is
+  // skipped; a cancelled scan throws once the files in flight settle.
+  private async scanSessions<T>(
+    sessions: ActiveSession[],
+    progress: ScanProgress,
+    read: (session: ActiveSession, messages: CompactMessage[]) => T | Promise<T>,
+    timeFilter?: (timestamp: string) => boolean
+  ): Promise<T[]> {
+    progress.queued(sessions.length);
+    const results: T[] = [];
+
+    for (let i = 0; i < sessions.length; i += SCAN_CONCURRENCY) {
+      progress.check();
+      const settled = await Promise.allSettled(
+        sessions.slice(i, i + SCAN_CONCURRENCY).map(async (session) => {
+          const messages = await this.parser.parseJsonlFile(
+            session.projectDir,
+            session.file,
+            timeFilter,
+            progress.signal
+          );
+          progress.fileDone();
+          return read(session, messages);
+        })
+      );
 
-                // Enhanced git pattern matching
-                const hasGitRef =
-                  /(?:modified|added|deleted|new file|renamed|M\s+|A\s+|D\s+)[\s:]*[^\n]*/.test(
-                    msg.content
-                  ) &&
-                  pathVariations.some(
-                    (variation) => variation.length > 0 && contentLower.includes(variation)
-                  );
+      progress.check();
+      for (const result of settled) {
+        if (result.status === 'fulfilled') results.push(result.value);
+      }
+    }
 
-                return hasFileRef || hasContentRef || hasGitRef;
-              });
+    return results;
+  }
 
-              if (fileMessages.length > 0) {
-                // Claude-optimized filtering - preserve valuable context
-                const cleanFileMessages = fileMessages.filter((msg) => {
-                  return msg.content.length > 15 && !this.isLowValueContent(msg.content);
-                });
+  async findFileContext(
+    filePath: string,
+    limit: number = 25,
+    timeframe?: string,
+    scan: ScanOptions = {}
+  ): Promise<FileContext[]> {
+    const timeFilter = await this.resolveTimeFilter(timeframe);
+    const progress = new ScanProgress(scan);
 
-                const dedupedMessages = SearchHelpers.deduplicateByContent(cleanFileMessages);
+    try {
+      // A message about the file names it, so only sessions that mention its name are read
+      const fileName = filePath.split(/[\\/]/).pop() || filePath;
+      const sessions = await this.sessionsFor({ literal: fileName, timeFilter });
+
+      const fileContexts = await this.scanSessions(
+        sessions,
+        progress,
+        (_session, messages): FileContext | null => {
+          const fileMessages = messages.filter((msg) => {
+            // ENHANCED file matching logic like GLOBAL with more patterns
+            const hasFileRef = msg.context?.filesReferenced?.some((ref) => {
+              const refLower = ref.toLowerCase();
+              const pathLower = filePath.toLowerCase();
+              // More comprehensive matching patterns
+              return (
+                refLower.includes(pathLower) ||
+                pathLower.includes(refLower) ||
+                refLower.endsWith('/' + pathLower) ||
+                pathLower.endsWith('/' + refLower) ||
+                refLower.split('/').pop() === pathLower ||
+                pathLower.split('/').pop() === refLower ||
+                refLower === pathLower ||
+                refLower.includes(pathLower.replace(/\\/g, '/')) ||
+                refLower.includes(pathLower.replace(/\//g, '\\'))
+              );
+            });
 
-                if (dedupedMessages.length > 0) {
-                  // Group by operation type (heuristic)
-                  const operationType = SearchHelpers.inferOperationType(dedupedMessages);
+            // Enhanced content matching with case variations and path separators
+            const contentLower = msg.content.toLowerCase();
+            const pathVariations = [
+              filePath.toLowerCase(),
+              filePath.toLowerCase().replace(/\\/g, '/'),
+              filePath.toLowerCase().replace(/\//g, '\\'),
+              filePath.toLowerCase().split('/').pop() || '',
+              filePath.toLowerCase().split('\\').pop() || '',
+            ];
+
+            const hasContentRef = pathVariations.some(
+              (variation) => variation.length > 0 && contentLower.includes(variation)
+            );
+
+            // Enhanced git pattern matching
+            const hasGitRef =
+              /(?:modified|added|deleted|new file|renamed|M\s+|A\s+|D\s+)[\s:]*[^\n]*/.test(
+                msg.content
+              ) &&
+              pathVariations.some(
+                (variation) => variation.length > 0 && contentLower.includes(variation)
+              );
+
+            return hasFileRef || hasContentRef || hasGitRef;
+          });
 
-                  return {
-                    filePath,
-                    lastModified: dedupedMessages[0]?.timestamp || '',
-                    relatedMessages: dedupedMessages.slice(0, Math.min(limit, 10)), // More context for Claude
-                    operationType,
-                  };
-                }
-              }
-              return null;
-            })
-          );
+          if (fileMessages.length > 0) {
+            // Claude-optimized filtering - preserve valuable context
+            const cleanFileMessages = fileMessages.filter((msg) => {
+              return msg.content.length > 15 && !this.isLowValueContent(msg.content);
+            });
+
+            const dedupedMessages = SearchHelpers.deduplicateByContent(cleanFileMessages);
 
-          // Collect successful file results
-          const validContexts: FileContext[] = [];
-          for (const result of fileResults) {
-            if (result.status === 'fulfilled' && result.value) {
-              validContexts.push(result.value);
+            if (dedupedMessages.length > 0) {
+              // Group by operation type (heuristic)
+              const operationType = SearchHelpers.inferOperationType(dedupedMessages);
+
+              return {
+                filePath,
+                lastModified: dedupedMessages[0]?.timestamp || '',
+                relatedMessages: dedupedMessages.slice(0, Math.min(limit, 10)), // More context for Claude
+                operationType,
+              };
             }
           }
-
-          return validContexts;
-        })
+          return null;
+        },
+        timeFilter
       );
 
-      // Aggregate all results from parallel processing
-      for (const result of projectResults) {
-        if (result.status === 'fulfilled') {
-          fileContexts.push(...result.value);
-        }
-      }
-
-      return fileContexts.sort(
-        (a, b) => new Date(b.lastModified).getTime() - new Date(a.lastModified).getTime()
-      );
+      return fileContexts
+        .filter((context): context is FileContext => context !== null)
+        .sort((a, b) => new Date(b.lastModified).getTime() - new Date(a.lastModified).getTime());
     } catch (error) {
+      progress.check();
       console.error('File context search error:', error);
       return [];
     }
   }
 
-  async findSimilarQueries(targetQuery: string, limit: number = 10): Promise<CompactMessage[]> {
-    const allMessages: CompactMessage[] = [];
+  async findSimilarQueries(
+    targetQuery: string,
+    limit: number = 10,
+    scan: ScanOptions = {}
+  ): Promise<CompactMessage[]> {
+    const progress = new ScanProgress(scan);
 
     try {
-      const projectDirs = await findProjectDirectories();
-      const expandedDirs = await expandWorktreeProjects(projectDirs);
-
-      // BALANCED: More projects for better coverage, early termination for speed
-      const limitedDirs = expandedDirs.slice(0, 8);
-
-      for (const projectDir of limitedDirs) {
-        const jsonlFiles = await findJsonlFiles(projectDir);
-
-        // BALANCED: More files per project for better context
-        const limitedFiles = jsonlFiles.slice(0, 5);
-
-        for (const file of limitedFiles) {
-          const messages = await this.parser.parseJsonlFile(projectDir, file);
+      // Similarity counts synonyms, so a similar query needn't share a word - read every session
+      const sessions = await this.sessionsFor({});
+      const perSession = await this.scanSessions(sessions, progress, (_session, messages) => {
+        const similar: CompactMessage[] = [];
 
-          // Find user messages (queries) that are similar and valuable
-          const userQueries = messages.filter(
-            (msg) =>
-              msg.type === 'user' &&
-              msg.content.length > 15 &&
-              msg.content.length < 800 &&
-              !this.isLowValueContent(msg.content) // Only quality queries
-          );
+        // Find user messages (queries) that are similar and valuable
+        const userQueries = messages.filter(
+          (msg) =>
+            msg.type === 'user' &&
+            msg.content.length > 15 &&
+            msg.content.length < 800 &&
+            !this.isLowValueContent(msg.content) // Only quality queries
+        );
 
-          for (let i = 0; i < userQueries.length; i++) {
-            const query = userQueries[i];
-            const similarity = SearchHelpers.calculateQuerySimilarity(targetQuery, query.content);
-            // Raised threshold to 0.4 and REMOVED partial keyword fallback (causes false positives)
-            if (similarity > 0.4) {
-              query.relevanceScore = similarity;
-
-              // Find the answer - look for next assistant message in original array
-              const queryIndex = messages.findIndex((m) => m.uuid === query.uuid);
-              if (queryIndex >= 0) {
-                // Look ahead for assistant response (may not be immediately next)
-                for (let j = queryIndex + 1; j < Math.min(queryIndex + 5, messages.length); j++) {
-                  const nextMsg = messages[j];
-                  if (nextMsg.type === 'assistant' && nextMsg.content.length > 50) {
-                    query.context = query.context || {};
-                    query.context.claudeInsights = [nextMsg.content.substring(0, 400)];
-                    break;
-                  }
+        for (let i = 0; i < userQueries.length; i++) {
+          const query = userQueries[i];
+          const similarity = SearchHelpers.calculateQuerySimilarity(targetQuery, query.content);
+          // Raised threshold to 0.4 and REMOVED partial keyword fallback (causes false positives)
+          if (similarity > 0.4) {
+            query.relevanceScore = similarity;
+
+            // Find the answer - look for next assistant message in original array
+            const queryIndex = messages.findIndex((m) => m.uuid === query.uuid);
+            if (queryIndex >= 0) {
+              // Look ahead for assistant response (may not be immediately next)
+              for (let j = queryIndex + 1; j < Math.min(queryIndex + 5, messages.length); j++) {
+                const nextMsg = messages[j];
+                if (nextMsg.type === 'assistant' && nextMsg.content.length > 50) {
+                  query.context = query.context || {};
+                  query.context.claudeInsights = [nextMsg.content.substring(0, 400)];
+                  break;
                 }
               }
-
-              allMessages.push(query);
             }
-          }
 
-          // SPEED FIX: Early termination when we have enough candidates
-          if (allMessages.length >= limit * 4) break;
+            similar.push(query);
+          }
         }
 
-        if (allMessages.length >= limit * 4) break;
-      }
+        return similar;
+      });
+      const allMessages = perSession.flat();
 
       // Quality filter and return only if we have valuable results
       const qualityResults = allMessages
@@ -975,117 +535,107 @@ export class HistorySearchEngine {
 
       return qualityResults;
     } catch (error) {
+      progress.check();
       console.error('Similar query search error:', error);
       return [];
     }
   }
 
-  async getErrorSolutions(errorPattern: string, limit: number = 10): Promise<ErrorSolution[]> {
+  async getErrorSolutions(
+    errorPattern: string,
+    limit: number = 10,
+    timeframe?: string,
+    scan: ScanOptions = {}
+  ): Promise<ErrorSolution[]> {
     const solutions: ErrorSolution[] = [];
     const errorMap = new Map<string, CompactMessage[]>();
+    const timeFilter = await this.resolveTimeFilter(timeframe);
+    const progress = new ScanProgress(scan);
 
     try {
-      const projectDirs = await findProjectDirectories();
-      const expandedDirs = await expandWorktreeProjects(projectDirs);
-
-      // BALANCED: More projects for better coverage, still much faster than sequential
-      const limitedDirs = expandedDirs.slice(0, 12); // Increased for better coverage
-
-      // PARALLEL PROCESSING: Process all projects concurrently
-      const projectResults = await Promise.allSettled(
-        limitedDirs.map(async (projectDir) => {
-          const jsonlFiles = await findJsonlFiles(projectDir);
-
-          // BALANCED: More files for better coverage
-          const limitedFiles = jsonlFiles.slice(0, 6);
-
-          const projectErrorMap = new Map<string, CompactMessage[]>();
-
-          // PARALLEL: Process files within project simultaneously
-          const fileResults = await Promise.allSettled(
-            limitedFiles.map(async (file) => {
-              const messages = await this.parser.parseJsonlFile(projectDir, file);
-
-              // Find error patterns and their solutions
-              for (let i = 0; i < messages.length - 1; i++) {
-                const current = messages[i];
-
-                // More precise error matching - require significant overlap
-                const lowerPattern = errorPattern.toLowerCase();
-                const patternWords = lowerPattern.split(/\s+/).filter((w) => w.length > 2);
-
-                // Extract error type if present (TypeError, SyntaxError, etc.)
-                const errorType = lowerPattern.match(
-                  /(typeerror|syntaxerror|referenceerror|rangeerror|error)/
-                )?.[0];
+      // Known error phrases match without the pattern's own words - read every session in range
+      const sessions = await this.sessionsFor({ timeFilter });
+      const sessionErrorMaps = await this.scanSessions(
+        sessions,
+        progress,
+        (_session, messages) => {
+          const sessionErrorMap = new Map<string, CompactMessage[]>();
+
+          // Find error patterns and their solutions
+          for (let i = 0; i < messages.length - 1; i++) {
+            const current = messages[i];
+
+            // More precise error matching - require significant overlap
+            const lowerPattern = errorPattern.toLowerCase();
+            const patternWords = lowerPattern.split(/\s+/).filter((w) => w.length > 2);
+
+            // Extract error type if present (TypeError, SyntaxError, etc.)
+            const errorType = lowerPattern.match(
+              /(typeerror|syntaxerror|referenceerror|rangeerror|error)/
+            )?.[0];
+
+            const hasMatchingError = current.context?.errorPatterns?.some((err) => {
+              const lowerErr = err.toLowerCase();
+
+              // Require error type to match if specified
+              if (errorType && !lowerErr.includes(errorType)) {
+                return false;
+              }
 
-                const hasMatchingError = current.context?.errorPatterns?.some((err) => {
-                  const lowerErr = err.toLowerCase();
+              // Require at least 3 pattern words to match, or full phrase match (stricter)
+              if (lowerErr.includes(lowerPattern)) return true;
+              const matchCount = patternWords.filter((w) => lowerErr.includes(w)).length;
+              return matchCount >= Math.min(3, patternWords.length);
+            });
 
-                  // Require error type to match if specified
-                  if (errorType && !lowerErr.includes(errorType)) {
-                    return false;
-                  }
+            // Only include if it's an actual error (not meta-discussion about errors)
+            const isActualErrorContent = this.isActualError(current.content);
+
+            // Filter out meta-content (plans, benchmarks, discussions)
+            if (
+              (hasMatchingError ||
+                SearchHelpers.hasErrorInContent(current.content, errorPattern)) &&
+              isActualErrorContent &&
+              !this.isMetaErrorContent(current.content)
+            ) {
+              // Use the most relevant error pattern as key
+              const matchedError =
+                current.context?.errorPatterns?.find((err) =>
+                  err.toLowerCase().includes(lowerPattern)
+                ) ||
+                current.context?.errorPatterns?.[0] ||
+                errorPattern;
+              const errorKey = matchedError;
+
+              if (!sessionErrorMap.has(errorKey)) {
+                sessionErrorMap.set(errorKey, []);
+              }
 
-                  // Require at least 3 pattern words to match, or full phrase match (stricter)
-                  if (lowerErr.includes(lowerPattern)) return true;
-                  const matchCount = patternWords.filter((w) => lowerErr.includes(w)).length;
-                  return matchCount >= Math.min(3, patternWords.length);
-                });
-
-                // Only include if it's an actual error (not meta-discussion about errors)
-                const isActualErrorContent = this.isActualError(current.content);
-
-                // Filter out meta-content (plans, benchmarks, discussions)
-                if (
-                  (hasMatchingError ||
-                    SearchHelpers.hasErrorInContent(current.content, errorPattern)) &&
-                  isActualErrorContent &&
-                  !this.isMetaErrorContent(current.content)
-                ) {
-                  // Use the most relevant error pattern as key
-                  const matchedError =
-                    current.context?.errorPatterns?.find((err) =>
-                      err.toLowerCase().includes(lowerPattern)
-                    ) ||
-                    current.context?.errorPatterns?.[0] ||
-                    errorPattern;
-                  const errorKey = matchedError;
-
-                  if (!projectErrorMap.has(errorKey)) {
-                    projectErrorMap.set(errorKey, []);
-                  }
+              // Include the error message and the next few messages as potential solutions
+              const solutionMessages = messages
+                .slice(i, i + 8) // Get more context for better solutions (increased from 5 to 8)
+                .filter(
+                  (msg) =>
+                    msg.type === 'assistant' ||
+                    msg.type === 'tool_result' ||
+                    (msg.type === 'user' && msg.content.length < 200) // Include short user clarifications
+                );
 
-                  // Include the error message and the next few messages as potential solutions
-                  const solutionMessages = messages
-                    .slice(i, i + 8) // Get more context for better solutions (increased from 5 to 8)
-                    .filter(
-                      (msg) =>
-                        msg.type === 'assistant' ||
-                        msg.type === 'tool_result' ||
-                        (msg.type === 'user' && msg.content.length < 200) // Include short user clarifications
-                    );
-
-                  projectErrorMap.get(errorKey)!.push(...solutionMessages);
-                }
-              }
-            })
-          );
+              sessionErrorMap.get(errorKey)!.push(...solutionMessages);
+            }
+          }
 
-          return projectErrorMap;
-        })
+          return sessionErrorMap;
+        },
+        timeFilter
       );
 
-      // Aggregate results from parallel processing
-      for (const result of projectResults) {
-        if (result.status === 'fulfilled') {
-          const projectErrorMap = result.value;
-          for (const [pattern, msgs] of projectErrorMap.entries()) {
-            if (!errorMap.has(pattern)) {
-              errorMap.set(pattern, []);
-            }
-            errorMap.get(pattern)!.push(...msgs);
+      for (const sessionErrorMap of sessionErrorMaps) {
+        for (const [pattern, msgs] of sessionErrorMap.entries()) {
+          if (!errorMap.has(pattern)) {
+            errorMap.set(pattern, []);
           }
+          errorMap.get(pattern)!.push(...msgs);
         }
       }
 
@@ -1112,20 +662,22 @@ export class HistorySearchEngine {
 
       return solutions.sort((a, b) => b.frequency - a.frequency).slice(0, limit);
     } catch (error) {
+      progress.check();
       console.error('Error solution search error:', error);
       return [];
     }
   }
 
-  async getToolPatterns(toolName?: string, limit: number = 20): Promise<ToolPattern[]> {
+  async getToolPatterns(
+    toolName?: string,
+    limit: number = 20,
+    scan: ScanOptions = {}
+  ): Promise<ToolPattern[]> {
     const toolMap = new Map<string, CompactMessage[]>();
     const workflowMap = new Map<string, CompactMessage[]>();
+    const progress = new ScanProgress(scan);
 
     try {
-      const projectDirs = await findProjectDirectories();
-      const expandedDirs = await expandWorktreeProjects(projectDirs);
-      const limitedDirs = expandedDirs.slice(0, 15);
-
       // Focus on core Claude Code tools that GLOBAL would recognize
       const coreTools = new Set([
         'Edit',
@@ -1139,125 +691,107 @@ export class HistorySearchEngine {
         'Notebook',
       ]);
 
-      // PARALLEL PROCESSING: Process all projects concurrently
-      const projectResults = await Promise.allSettled(
-        limitedDirs.map(async (projectDir) => {
-          const jsonlFiles = await findJsonlFiles(projectDir);
-          const limitedFiles = jsonlFiles.slice(0, 8);
-
-          const projectToolMap = new Map<string, CompactMessage[]>();
-          const projectWorkflowMap = new Map<string, CompactMessage[]>();
-
-          // PARALLEL: Process files within project simultaneously
-          const fileResults = await Promise.allSettled(
-            limitedFiles.map(async (file) => {
-              const messages = await this.parser.parseJsonlFile(projectDir, file);
-
-              // Extract individual tool usage patterns
-              for (const msg of messages) {
-                if (msg.context?.toolsUsed?.length) {
-                  for (const tool of msg.context.toolsUsed) {
-                    // If toolName specified, only track that tool
-                    // Otherwise, track all core tools
-                    const shouldTrack = toolName ? tool === toolName : coreTools.has(tool);
-
-                    if (shouldTrack) {
-                      if (!projectToolMap.has(tool)) {
-                        projectToolMap.set(tool, []);
-                      }
-                      projectToolMap.get(tool)!.push(msg);
-                    }
-                  }
+      // A named tool only turns up in sessions that used it
+      const sessions = await this.sessionsFor({ literal: toolName });
+      const sessionResults = await this.scanSessions(sessions, progress, (_session, messages) => {
+        const sessionToolMap = new Map<string, CompactMessage[]>();
+        const sessionWorkflowMap = new Map<string, CompactMessage[]>();
+
+        // Extract individual tool usage patterns
+        for (const msg of messages) {
+          if (msg.context?.toolsUsed?.length) {
+            for (const tool of msg.context.toolsUsed) {
+              // If toolName specified, only track that tool
+              // Otherwise, track all core tools
+              const shouldTrack = toolName ? tool === toolName : coreTools.has(tool);
+
+              if (shouldTrack) {
+                if (!sessionToolMap.has(tool)) {
+                  sessionToolMap.set(tool, []);
                 }
+                sessionToolMap.get(tool)!.push(msg);
               }
+            }
+          }
+        }
 
-              // Extract workflow patterns (tool sequences)
-              for (let i = 0; i < messages.length - 1; i++) {
-                const current = messages[i];
-                const next = messages[i + 1];
-
-                if (current.context?.toolsUsed?.length && next.context?.toolsUsed?.length) {
-                  // Create focused workflow patterns
-                  for (const currentTool of current.context.toolsUsed) {
-                    for (const nextTool of next.context.toolsUsed) {
-                      // If toolName specified, workflow must involve that tool
-                      // Otherwise, workflows between core tools
-                      const shouldTrack = toolName
-                        ? currentTool === toolName || nextTool === toolName
-                        : coreTools.has(currentTool) && coreTools.has(nextTool);
-
-                      if (shouldTrack) {
-                        const workflowKey = `${currentTool} → ${nextTool}`;
-                        if (!projectWorkflowMap.has(workflowKey)) {
-                          projectWorkflowMap.set(workflowKey, []);
-                        }
-                        projectWorkflowMap.get(workflowKey)!.push(current, next);
-                      }
-                    }
+        // Extract workflow patterns (tool sequences)
+        for (let i = 0; i < messages.length - 1; i++) {
+          const current = messages[i];
+          const next = messages[i + 1];
+
+          if (current.context?.toolsUsed?.length && next.context?.toolsUsed?.length) {
+            // Create focused workflow patterns
+            for (const currentTool of current.context.toolsUsed) {
+              for (const nextTool of next.context.toolsUsed) {
+                // If toolName specified, workflow must involve that tool
+                // Otherwise, workflows between core tools
+                const shouldTrack = toolName
+                  ? currentTool === toolName || nextTool === toolName
+                  : coreTools.has(currentTool) && coreTools.has(nextTool);
+
+                if (shouldTrack) {
+                  const workflowKey = `${currentTool} → ${nextTool}`;
+                  if (!sessionWorkflowMap.has(workflowKey)) {
+                    sessionWorkflowMap.set(workflowKey, []);
                   }
+                  sessionWorkflowMap.get(workflowKey)!.push(current, next);
                 }
               }
+            }
+          }
+        }
 
-              // Also create longer sequences for complex workflows
-              for (let i = 0; i < messages.length - 2; i++) {
-                const first = messages[i];
-                const second = messages[i + 1];
-                const third = messages[i + 2];
-
-                if (
-                  first.context?.toolsUsed?.length &&
-                  second.context?.toolsUsed?.length &&
-                  third.context?.toolsUsed?.length
-                ) {
-                  for (const firstTool of first.context.toolsUsed) {
-                    for (const secondTool of second.context.toolsUsed) {
-                      for (const thirdTool of third.context.toolsUsed) {
-                        // If toolName specified, 3-step workflow must involve that tool
-                        const shouldTrack = toolName
-                          ? firstTool === toolName ||
-                            secondTool === toolName ||
-                            thirdTool === toolName
-                          : coreTools.has(firstTool) &&
-                            coreTools.has(secondTool) &&
-                            coreTools.has(thirdTool);
-
-                        if (shouldTrack) {
-                          const workflowKey = `${firstTool} → ${secondTool} → ${thirdTool}`;
-                          if (!projectWorkflowMap.has(workflowKey)) {
-                            projectWorkflowMap.set(workflowKey, []);
-                          }
-                          projectWorkflowMap.get(workflowKey)!.push(first, second, third);
-                        }
-                      }
+        // Also create longer sequences for complex workflows
+        for (let i = 0; i < messages.length - 2; i++) {
+          const first = messages[i];
+          const second = messages[i + 1];
+          const third = messages[i + 2];
+
+          if (
+            first.context?.toolsUsed?.length &&
+            second.context?.toolsUsed?.length &&
+            third.context?.toolsUsed?.length
+          ) {
+            for (const firstTool of first.context.toolsUsed) {
+              for (const secondTool of second.context.toolsUsed) {
+                for (const thirdTool of third.context.toolsUsed) {
+                  // If toolName specified, 3-step workflow must involve that tool
+                  const shouldTrack = toolName
+                    ? firstTool === toolName || secondTool === toolName || thirdTool === toolName
+                    : coreTools.has(firstTool) &&
+                      coreTools.has(secondTool) &&
+                      coreTools.has(thirdTool);
+
+                  if (shouldTrack) {
+                    const workflowKey = `${firstTool} → ${secondTool} → ${thirdTool}`;
+                    if (!sessionWorkflowMap.has(workflowKey)) {
+                      sessionWorkflowMap.set(workflowKey, []);
                     }
+                    sessionWorkflowMap.get(workflowKey)!.push(first, second, third);
                   }
                 }
               }
-            })
-          );
+            }
+          }
+        }
 
-          return { tools: projectToolMap, workflows: projectWorkflowMap };
-        })
-      );
+        return { tools: sessionToolMap, workflows: sessionWorkflowMap };
+      });
 
-      // Aggregate results from parallel processing
-      for (const result of projectResults) {
-        if (result.status === 'fulfilled') {
-          // Aggregate individual tools
-          for (const [tool, messages] of result.value.tools.entries()) {
-            if (!toolMap.has(tool)) {
-              toolMap.set(tool, []);
-            }
-            toolMap.get(tool)!.push(...messages);
+      for (const result of sessionResults) {
+        for (const [tool, messages] of result.tools.entries()) {
+          if (!toolMap.has(tool)) {
+            toolMap.set(tool, []);
           }
+          toolMap.get(tool)!.push(...messages);
+        }
 
-          // Aggregate workflows
-          for (const [workflow, messages] of result.value.workflows.entries()) {
-            if (!workflowMap.has(workflow)) {
-              workflowMap.set(workflow, []);
-            }
-            workflowMap.get(workflow)!.push(...messages);
+        for (const [workflow, messages] of result.workflows.entries()) {
+          if (!workflowMap.has(workflow)) {
+            workflowMap.set(workflow, []);
           }
+          workflowMap.get(workflow)!.push(...messages);
         }
       }
 
@@ -1347,96 +881,140 @@ export class HistorySearchEngine {
         })
         .slice(0, limit);
     } catch (error) {
+      progress.check();
       console.error('Tool pattern search error:', error);
       return [];
     }
   }
 
-  async getRecentSessions(limit: number = 10): Promise<any[]> {
+  async getRecentSessions(
+    limit: number = 10,
+    timeframe?: string,
+    projectFilter?: string,
+    scan: ScanOptions = {}
+  ): Promise<RecentSession[]> {
+    // Sessions with no messages in the timeframe drop out below
+    const timeFilter = await this.resolveTimeFilter(timeframe);
+    const progress = new ScanProgress(scan);
+
     try {
-      // OPTIMIZED: Fast session discovery with parallel processing and early termination
-      const projectDirs = await findProjectDirectories();
-      const expandedDirs = await expandWorktreeProjects(projectDirs);
-
-      // PERFORMANCE: Limit projects and use parallel processing like GLOBAL
-      const limitedDirs = expandedDirs.slice(0, 10); // Limit projects for speed
-
-      // PARALLEL PROCESSING: Process projects concurrently
-      const projectResults = await Promise.allSettled(
-        limitedDirs.map(async (projectDir) => {
-          const jsonlFiles = await findJsonlFiles(projectDir);
-          const decodedPath = projectDir.replace(/-/g, '/');
-          const projectName = decodedPath.split('/').pop() || 'unknown';
-
-          // PERFORMANCE: Limit files per project and process in parallel
-          const limitedFiles = jsonlFiles.slice(0, 5); // Limit files for speed
-
-          const sessionResults = await Promise.allSettled(
-            limitedFiles.map(async (file) => {
-              const messages = await this.parser.parseJsonlFile(projectDir, file);
-
-              if (messages.length === 0) return null;
-
-              // Fast extraction of session data
-              const toolsUsed = [...new Set(messages.flatMap((m) => m.context?.toolsUsed || []))];
-              const startTime = messages[0]?.timestamp;
-              const endTime = messages[messages.length - 1]?.timestamp;
-
-              // Quick duration calculation
-              let realDuration = 0;
-              if (startTime && endTime) {
-                realDuration = Math.round(
-                  (new Date(endTime).getTime() - new Date(startTime).getTime()) / 60000
-                );
-              }
+      // The index knows when each session was last active, so only the newest are read
+      const sessions = (await this.sessionsFor({ projectFilter, timeFilter })).slice(0, limit);
+      const projectPaths = new Map<string, Promise<string>>();
+
+      const realSessions = await this.scanSessions(
+        sessions,
+        progress,
+        async (session, messages): Promise<RecentSession | null> => {
+          if (messages.length === 0) return null;
+
+          // Sessions of one project share its decoded path
+          if (!projectPaths.has(session.projectDir)) {
+            projectPaths.set(session.projectDir, resolveProjectPath(session.projectDir));
+          }
+          const projectPath = await projectPaths.get(session.projectDir)!;
+
+          // Fast extraction of session data
+          const toolsUsed = [...new Set(messages.flatMap((m) => m.context?.toolsUsed || []))];
+          const startTime = messages[0]?.timestamp;
+          const endTime = messages[messages.length - 1]?.timestamp;
+
+          // Quick duration calculation
+          let realDuration = 0;
+          if (startTime && endTime) {
+            realDuration = Math.round(
+              (new Date(endTime).getTime() - new Date(startTime).getTime()) / 60000
+            );
+          }
 
-              // Extract accomplishments - what was actually done
-              const accomplishments = this.extractSessionAccomplishments(messages);
+          // Extract accomplishments - what was actually done
+          const accomplishments = this.extractSessionAccomplishments(messages);
 
-              return {
-                session_id: file.replace('.jsonl', ''),
-                project_path: decodedPath,
-                project_dir: projectDir,
-                project_name: projectName,
-                message_count: messages.length,
-                duration_minutes: realDuration,
-                end_time: endTime,
-                start_time: startTime,
-                tools_used: toolsUsed.slice(0, 5), // Limit tools for speed
-                assistant_count: messages.filter((m) => m.type === 'assistant').length,
-                error_count: messages.filter((m) => m.context?.errorPatterns?.length).length,
-                session_quality: this.calculateSessionQuality(messages, toolsUsed, []),
-                accomplishments: accomplishments.slice(0, 3), // Top 3 accomplishments
-              };
-            })
-          );
-
-          // Collect successful session results
-          return sessionResults
-            .filter((result) => result.status === 'fulfilled' && result.value)
-            .map((result) => (result as PromiseFulfilledResult<any>).value);
-        })
+          return {
+            session_id: session.sessionId,
+            project_path: projectPath,
+            project_dir: session.projectDir,
+            repo_path: getRepoRoot(session.projectDir),
+            project_name: projectPath.split('/').pop() || 'unknown',
+            message_count: messages.length,
+            duration_minutes: realDuration,
+            end_time: endTime,
+            start_time: startTime,
+            tools_used: toolsUsed.slice(0, 5), // Limit tools for speed
+            assistant_count: messages.filter((m) => m.type === 'assistant').length,
+            error_count: messages.filter((m) => m.context?.errorPatterns?.length).length,
+            session_quality: this.calculateSessionQuality(messages, toolsUsed, []),
+            accomplishments: accomplishments.slice(0, 3), // Top 3 accomplishments
+          };
+        },
+        timeFilter
       );
 
-      // Flatten and collect all sessions
-      const realSessions: any[] = [];
-      for (const result of projectResults) {
-        if (result.status === 'fulfilled') {
-          realSessions.push(...result.value);
-        }
-      }
-
       // Sort by real end time
       return realSessions
-        .filter((s) => s.end_time) // Only sessions with real timestamps
-        .sort((a, b) => new Date(b.end_time).getTime() - new Date(a.end_time).getTime())
-        .slice(0, limit);
+        .filter((s): s is RecentSession => s !== null && !!s.end_time) // Only sessions with real timestamps
+        .sort((a, b) => new Date(b.end_time || 0).getTime() - new Date(a.end_time || 0).getTime());
     } catch (error) {
+      progress.check();
       console.error('Recent sessions error:', error);
       return [];
     }
   }
 
+  // Indexed sessions, newest first. project matches a project or repository name exactly.
+  async listSessions(project?: string, limit: number = 50): Promise<SessionListing[]> {
+    await this.index.ensureFresh();
+
+    const sessions = this.index
+      .listSessions()
+      .filter((session) => !session.sessionId.startsWith('agent-'))
+      .sort((a, b) => b.mtimeMs - a.mtimeMs);
+
+    const listings: SessionListing[] = [];
+    for (const session of sessions) {
+      if (listings.length >= limit) break;
+
+      const projectPath = await resolveProjectPath(session.projectDir);
+      const repoPath = getRepoRoot(session.projectDir);
+      const names = [projectPath.split('/').pop(), repoPath.split('/').pop()];
+      if (project && !names.includes(project)) {
+        continue;
+      }
+
+      listings.push({
+        sessionId: session.sessionId,
+        projectPath,
+        repoPath,
+        messageCount: session.messageCount,
+        lastActivity: new Date(session.mtimeMs).toISOString(),
+      });
+    }
+
+    return listings;
+  }
+
+  // Names a project filter accepts: each project's directory name and its repository's,
+  // most recently active first
+  async listProjectNames(): Promise<string[]> {
+    const projectDirs = await findProjectDirectories();
+    await resolveRepoRoots(projectDirs);
+
+    const names = new Set<string>();
+    for (const projectDir of projectDirs) {
+      const projectPath = await resolveProjectPath(projectDir);
+      for (const path of [projectPath, getRepoRoot(projectDir)]) {
+        const name = path.split('/').pop();
+        if (name) names.add(name);
+      }
+    }
+    return [...names];
+  }
+
+  async listToolNames(): Promise<string[]> {
+    await this.index.ensureFresh();
+    return this.index.toolNames();
+  }
+
   private calculateSessionQuality(
     messages: any[],
     toolsUsed: string[],
@@ -1534,6 +1112,128 @@ export class HistorySearchEngine {
     return [...new Set(accomplishments)].slice(0, 3);
   }
 
+  // Ordered, paged transcript of one session. Without includeTools only the conversation
+  // itself is kept - tool calls, tool output and thinking-only lines are dropped.
+  async getSessionTranscript(
+    sessionReference: string,
+    options: TranscriptOptions = {}
+  ): Promise<TranscriptLookup> {
+    try {
+      await this.index.ensureFresh();
+
+      const matches = this.index.findSessions(sessionReference);
+      if (matches.length !== 1) {
+        return { transcript: null, candidates: matches.map((m) => m.sessionId).slice(0, 10) };
+      }
+
+      const { sessionId, projectDir, file } = matches[0];
+      const allMessages = await this.parser.parseJsonlFile(projectDir, file);
+      const includeTools = options.includeTools || false;
+      const roles = new Set<CompactMessage['type']>(options.roles || []);
+
+      const kept = allMessages
+        .map((message, position) => ({ message, position }))
+        .filter(
+          ({ message }) =>
+            (roles.size === 0 || roles.has(message.type)) &&
+            (includeTools || !this.isToolPlumbing(message))
+        );
+
+      const limit = Math.min(Math.max(options.limit || 50, 1), 200);
+      let offset = Math.max(options.offset || 0, 0);
+
+      if (options.anchorUuid) {
+        // The anchor may itself be filtered out - start at the first kept message from there on
+        const anchorPosition = allMessages.findIndex((msg) => msg.uuid === options.anchorUuid);
+        if (anchorPosition !== -1) {
+          const index = kept.findIndex(({ position }) => position >= anchorPosition);
+          offset = index === -1 ? kept.length : index;
+        }
+      }
+
+      const page = kept
+        .slice(offset, offset + limit)
+        .map(({ message }) => (includeTools ? message : { ...message, toolResults: undefined }));
+
+      return {
+        transcript: {
+          sessionId,
+          projectPath: allMessages[0]?.projectPath || projectDir,
+          totalMessages: kept.length,
+          offset,
+          nextOffset: offset + limit < kept.length ? offset + limit : null,
+          branchPoints: this.parser.buildThreads(allMessages).flatMap((t) => t.branchPoints),
+          messages: page,
+        },
+        candidates: [],
+      };
+    } catch (error) {
+      console.error(`Error getting transcript for ${sessionReference}:`, error);
+      return { transcript: null, candidates: [] };
+    }
+  }
+
+  // N messages either side of one message, for expanding a search hit into its discussion
+  async getMessageContext(
+    uuid: string,
+    before: number = 5,
+    after: number = 5,
+    includeTools: boolean = false
+  ): Promise<MessageContext | null> {
+    try {
+      await this.index.ensureFresh();
+
+      const doc = this.index.findMessage(uuid);
+      if (!doc) return null;
+
+      const allMessages = await this.parser.parseJsonlFile(doc.projectDir, doc.file);
+
+      // The anchor itself is always kept, even when it is a tool message
+      const kept = allMessages.filter(
+        (msg) => msg.uuid === uuid || includeTools || !this.isToolPlumbing(msg)
+      );
+      const anchorIndex = kept.findIndex((msg) => msg.uuid === uuid);
+      if (anchorIndex === -1) return null;
+
+      const start = Math.max(anchorIndex - Math.min(Math.max(before, 0), 50), 0);
+      const end = anchorIndex + Math.min(Math.max(after, 0), 50) + 1;
+
+      return {
+        sessionId: doc.sessionId,
+        projectPath: allMessages[0]?.projectPath || doc.projectDir,
+        anchorUuid: uuid,
+        messages: kept
+          .slice(start, end)
+          .map((msg) =>
+            includeTools || msg.uuid === uuid ? msg : { ...msg, toolResults: undefined }
+          ),
+      };
+    } catch (error) {
+      console.error(`Error getting context for ${uuid}:`, error);
+      return null;
+    }
+  }
+
+  async getUsageStats(
+    groupBy: UsageGroupBy = 'project',
+    projectFilter?: string,
+    timeframe?: string,
+    limit: number = 20
+  ): Promise<UsageReport> {
+    const timeFilter = await this.resolveTimeFilter(timeframe);
+    await this.index.ensureFresh();
+
+    const records = this.index.usageRecords({ projectFilter, timeFilter });
+    const priceTable = await loadPriceTable();
+
+    return aggregateUsage(records, groupBy, priceTable, limit);
+  }
+
+  // Tool calls and tool output with no prose of their own
+  private isToolPlumbing(message: CompactMessage): boolean {
+    return message.content.replace(/\[Tool(?: Result|: [^\]]*)\]/g, '').trim().length === 0;
+  }
+
   async getSessionMessages(encodedProjectDir: string, sessionId: string): Promise<any[]> {
     try {
       // Direct access to specific session file
@@ -1550,6 +1250,35 @@ export class HistorySearchEngine {
     }
   }
 
+  // A whole session resolved from a reference ("latest", an id or a prefix), conversation only
+  async getSession(sessionReference: string): Promise<TranscriptLookup> {
+    await this.index.ensureFresh();
+
+    const matches = this.index.findSessions(sessionReference);
+    if (matches.length !== 1) {
+      return { transcript: null, candidates: matches.map((m) => m.sessionId).slice(0, 10) };
+    }
+
+    const { sessionId, projectDir } = matches[0];
+    const allMessages = await this.getSessionMessages(projectDir, sessionId);
+    const messages = allMessages
+      .filter((message) => !this.isToolPlumbing(message))
+      .map((message) => ({ ...message, toolResults: undefined }));
+
+    return {
+      transcript: {
+        sessionId,
+        projectPath: allMessages[0]?.projectPath || (await resolveProjectPath(projectDir)),
+        totalMessages: messages.length,
+        offset: 0,
+        nextOffset: null,
+        branchPoints: this.parser.buildThreads(allMessages).flatMap((t) => t.branchPoints),
+        messages,
+      },
+      candidates: [],
+    };
+  }
+
   private isLowValueContent(content: string): boolean {
     const lowerContent = content.toLowerCase();
 
@@ -1684,50 +1413,18 @@ export class HistorySearchEngine {
     return practices.slice(0, 5);
   }
 
-  async searchPlans(query: string, limit: number = 10): Promise<PlanResult[]> {
-    try {
-      const planFiles = await findPlanFiles();
-      const plansPath = getClaudePlansPath();
-
-      // Process all plan files in parallel
-      const planResults = await Promise.allSettled(
-        planFiles.map(async (filename) => {
-          const filepath = join(plansPath, filename);
-          const content = await readFile(filepath, 'utf-8');
-          const stats = await stat(filepath);
-
-          // Parse markdown structure
-          const title = this.extractPlanTitle(content);
-          const sections = this.extractPlanSections(content);
-          const filesMentioned = this.extractFileReferences(content);
-
-          // Calculate relevance score
-          const relevanceScore = this.calculatePlanRelevance(query, title, sections, content);
-
-          return {
-            name: filename.replace('.md', ''),
-            filepath,
-            title,
-            content: content.substring(0, 2000), // Limit content size
-            sections,
-            filesMentioned,
-            timestamp: stats.mtime.toISOString(),
-            relevanceScore,
-          };
-        })
-      );
+  async searchPlans(query: string, limit: number = 10, timeframe?: string): Promise<PlanResult[]> {
+    const timeFilter = await this.resolveTimeFilter(timeframe);
 
-      // Collect successful results
-      const plans: PlanResult[] = [];
-      for (const result of planResults) {
-        if (result.status === 'fulfilled') {
-          plans.push(result.value);
-        }
-      }
+    try {
+      const plans = (await this.listPlans()).map((plan) => ({
+        ...plan,
+        relevanceScore: this.calculatePlanRelevance(query, plan.title, plan.sections, plan.content),
+      }));
 
-      // Filter by relevance and sort
+      // Filter by relevance and last edit, then sort
       return plans
-        .filter((p) => p.relevanceScore > 0)
+        .filter((p) => p.relevanceScore > 0 && timeFilter(p.timestamp))
         .sort((a, b) => b.relevanceScore - a.relevanceScore)
         .slice(0, limit);
     } catch (error) {
@@ -1736,6 +1433,35 @@ export class HistorySearchEngine {
     }
   }
 
+  // Every plan with its full content, most recently edited first
+  async listPlans(): Promise<PlanResult[]> {
+    // Plan contents come from the index cache - only changed plans are re-read
+    const indexedPlans = await this.index.getPlans();
+
+    return indexedPlans
+      .map((plan) => this.describePlan(plan))
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }
+
+  async getPlan(name: string): Promise<PlanResult | null> {
+    const plans = await this.listPlans();
+    return plans.find((plan) => plan.name === name) || null;
+  }
+
+  private describePlan({ filename, filepath, content, mtimeMs }: IndexedPlan): PlanResult {
+    // Parse markdown structure
+    return {
+      name: filename.replace('.md', ''),
+      filepath,
+      title: this.extractPlanTitle(content),
+      content,
+      sections: this.extractPlanSections(content),
+      filesMentioned: this.extractFileReferences(content),
+      timestamp: new Date(mtimeMs).toISOString(),
+      relevanceScore: 0,
+    };
+  }
+
   private extractPlanTitle(content: string): string | null {
     // Extract first H1 heading
     const match = content.match(/^#\s+(.+)$/m);
@@ -0,0 +1,74 @@
+// Literal and regex matching for search_conversations' exact and regex modes
+import { Script, createContext } from 'vm';
+import { QuerySyntaxError } from './query-parser.js';
+
+// A pathological pattern (e.g. (a+)+$) can backtrack for minutes - give each batch of
+// messages this long before giving up
+const REGEX_TIMEOUT_MS = 1000;
+// Offsets reported per searched text; counting stops here
+export const MAX_MATCHES_PER_TEXT = 20;
+
+export type MatchRange = [start: number, end: number];
+
+// Finds match ranges in a batch of texts, one list per text
+export type TextMatcher = (texts: string[]) => MatchRange[][];
+
+export function createExactMatcher(literal: string): TextMatcher {
+  return (texts) =>
+    texts.map((text) => {
+      const ranges: MatchRange[] = [];
+      let from = text.indexOf(literal);
+      while (from !== -1 && ranges.length < MAX_MATCHES_PER_TEXT) {
+        ranges.push([from, from + literal.length]);
+        from = text.indexOf(literal, from + literal.length);
+      }
+      return ranges;
+    });
+}
+
+// Accepts a bare pattern or /pattern/flags. Matching runs in its own VM context so a runaway
+// pattern can be interrupted - a RegExp on the main thread can't be.
+export function createRegexMatcher(query: string): TextMatcher {
+  const literal = query.match(/^\/(.+)\/([a-z]*)$/s);
+  const source = literal ? literal[1] : query;
+  const flags = literal ? literal[2] : '';
+
+  if (/[^dimsuv]/.test(flags)) {
+    throw new QuerySyntaxError(`unsupported regex flag in "${flags}" (use d, i, m, s, u or v)`);
+  }
+
+  try {
+    new RegExp(source, flags);
+  } catch (error) {
+    throw new QuerySyntaxError(`invalid regex: ${(error as Error).message}`);
+  }
+
+  const context = createContext({ source, flags: `${flags}g`, texts: [], ranges: [] });
+  const script = new Script(`
+    pattern = new RegExp(source, flags);
+    ranges = texts.map((text) => {
+      const found = [];
+      for (const match of text.matchAll(pattern)) {
+        if (match[0].length === 0) continue;
+        found.push([match.index, match.index + match[0].length]);
+        if (found.length >= ${MAX_MATCHES_PER_TEXT}) break;
+      }
+      return found;
+    });
+  `);
+
+  return (texts) => {
+    context.texts = texts;
+    try {
+      script.runInContext(context, { timeout: REGEX_TIMEOUT_MS });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+        throw new QuerySyntaxError(
+          `regex took longer than ${REGEX_TIMEOUT_MS}ms - simplify the pattern (nested quantifiers backtrack badly)`
+        );
+      }
+      throw error;
+    }
+    return context.ranges as MatchRange[][];
+  };
+}
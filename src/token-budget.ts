@@ -0,0 +1,131 @@
+// Token-budgeted tool output: pack the highest-ranked results into the caller's max_tokens
+// instead of cutting every field at a fixed length
+//
+// Counts come from a local estimate - close enough to size a response, no tokenizer needed.
+
+export const DEFAULT_MAX_TOKENS = 8000;
+export const MIN_MAX_TOKENS = 500;
+
+// Strings this short are never cut - it would save little and lose the point of them
+const SHORTEST_CUT = 200;
+
+// Successively harsher cuts tried on a result that doesn't fit whole
+const CUT_RATIOS = [0.5, 0.25, 0.1];
+
+// The first result of a page comes back however hard it has to be cut - short strings and lists
+// too - so following next_cursor always moves on. These are tried once the ordinary cuts fail.
+const HARD_CUT_RATIOS = [0.05, 0.02, 0];
+const HARD_SHORTEST_CUT = 20;
+
+// Short words and numbers are about a token each, long ones a token per ~4 characters;
+// punctuation and line breaks (JSON is full of both) a token apiece
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const piece of text.match(/[A-Za-z]+|\d+|\n|[^\sA-Za-z\d]/g) || []) {
+    tokens += piece.length > 1 ? Math.ceil(piece.length / (/\d/.test(piece) ? 3 : 4)) : 1;
+  }
+  return tokens;
+}
+
+export interface PackOptions<T> {
+  maxTokens: number;
+  list?: keyof T; // The ranked results - dropped from the end when they don't all fit
+  measure: (structured: T) => number;
+  shorten: (text: string, maxLength: number) => string;
+}
+
+export interface Packed<T> {
+  structured: T;
+  omitted: number; // Results left out
+  shortened: number; // Fields cut short
+}
+
+// Keep results in rank order while they fit. The first one that doesn't has its long fields
+// cut rather than being dropped outright; everything after it is left out. A page never comes back
+// empty: its first result is kept at its hardest cut even if that still doesn't fit.
+export function packToBudget<T extends object>(structured: T, options: PackOptions<T>): Packed<T> {
+  const { maxTokens, list, measure, shorten } = options;
+  if (measure(structured) <= maxTokens) return { structured, omitted: 0, shortened: 0 };
+
+  const items = list ? structured[list] : undefined;
+  if (!list || !Array.isArray(items)) {
+    const cut = cutToFit(structured, (candidate) => measure(candidate) <= maxTokens, shorten);
+    return cut ? { ...cut, omitted: 0 } : { structured, omitted: 0, shortened: 0 };
+  }
+
+  const withItems = (kept: unknown[]): T => ({ ...structured, [list]: kept });
+  const kept: unknown[] = [];
+  let shortened = 0;
+
+  for (const item of items) {
+    const fits = (candidate: unknown): boolean =>
+      measure(withItems([...kept, candidate])) <= maxTokens;
+    if (fits(item)) {
+      kept.push(item);
+      continue;
+    }
+
+    const first = kept.length === 0;
+    const cut = cutToFit(item, fits, shorten, first);
+    if (cut) {
+      kept.push(cut.structured);
+      shortened = cut.shortened;
+    }
+    break;
+  }
+
+  return { structured: withItems(kept), omitted: items.length - kept.length, shortened };
+}
+
+// With must set, the hardest cut is returned when none fits
+function cutToFit<V>(
+  value: V,
+  fits: (candidate: V) => boolean,
+  shorten: (text: string, maxLength: number) => string,
+  must = false
+): { structured: V; shortened: number } | null {
+  const cuts = [
+    ...CUT_RATIOS.map((ratio) => ({ ratio, hard: false })),
+    ...(must ? HARD_CUT_RATIOS.map((ratio) => ({ ratio, hard: true })) : []),
+  ];
+
+  let hardest: { structured: V; shortened: number } | null = null;
+  for (const cut of cuts) {
+    const counter = { shortened: 0 };
+    const candidate = cutValue(value, cut, shorten, counter) as V;
+    if (counter.shortened === 0) continue;
+    hardest = { structured: candidate, shortened: counter.shortened };
+    if (fits(candidate)) return hardest;
+  }
+  return must ? hardest || { structured: value, shortened: 0 } : null;
+}
+
+// Long strings are cut to ratio of their length; a hard cut also cuts short strings and drops
+// the tail of lists
+function cutValue(
+  value: unknown,
+  cut: { ratio: number; hard: boolean },
+  shorten: (text: string, maxLength: number) => string,
+  counter: { shortened: number }
+): unknown {
+  if (typeof value === 'string') {
+    const shortest = cut.hard ? HARD_SHORTEST_CUT : SHORTEST_CUT;
+    if (value.length <= shortest) return value;
+    const cutText = shorten(value, Math.max(shortest, Math.floor(value.length * cut.ratio)));
+    if (cutText !== value) counter.shortened++;
+    return cutText;
+  }
+  if (Array.isArray(value)) {
+    const entries = cut.hard
+      ? value.slice(0, Math.max(1, Math.ceil(value.length * cut.ratio)))
+      : value;
+    if (entries.length < value.length) counter.shortened++;
+    return entries.map((entry) => cutValue(entry, cut, shorten, counter));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, cutValue(entry, cut, shorten, counter)])
+    );
+  }
+  return value;
+}
@@ -30,6 +30,7 @@ export interface CompactMessage {
   content: string;
   sessionId: string;
   projectPath?: string;
+  repo?: string; // Root of the main repository when projectPath is one of its worktrees
   relevanceScore?: number;
   finalScore?: number; // For enhanced scoring calculations
   context?: {
@@ -41,13 +42,118 @@ export interface CompactMessage {
     codeSnippets?: string[]; // Code blocks and snippets
     actionItems?: string[]; // Next steps and actions
   };
+  toolResults?: ToolResult[]; // Output returned to Claude by tools (compiler errors, test runs, stdout)
+  thinking?: string; // Extended-thinking reasoning from assistant messages
+  parentUuid?: string | null;
+  isSidechain?: boolean; // Part of a Task subagent conversation
+  model?: string;
+  usage?: TokenUsage;
+  apiMessageId?: string; // message.id - shared by every line of one API response
+  matches?: TextMatch[]; // Set by exact and regex searches
+  thread?: {
+    parent?: CompactMessage; // The prompt this message answers
+    replies: CompactMessage[];
+  };
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+}
+
+export type UsageGroupBy = 'session' | 'project' | 'repo' | 'model' | 'day' | 'week';
+
+export interface UsageRecord {
+  sessionId: string;
+  project: string;
+  repo: string; // Main repository - the same for all of its worktrees
+  timestamp: string;
+  model?: string;
+  apiMessageId?: string;
+  usage: TokenUsage;
+}
+
+export interface UsageGroup extends TokenUsage {
+  key: string;
+  messages: number; // API responses, not JSONL lines
+  totalTokens: number;
+  estimatedCost: number; // USD
+}
+
+export interface UsageReport {
+  groupBy: UsageGroupBy;
+  totals: UsageGroup;
+  groups: UsageGroup[];
+  totalGroups: number;
+  priceSource: string;
+  unpricedModels: string[];
+}
+
+export interface ToolResult {
+  toolUseId: string;
+  toolName?: string; // Resolved from the tool_use block with the same id
+  content: string;
+  isError?: boolean;
+}
+
+// A parsed message together with the byte range of its JSONL line
+export interface LocatedMessage {
+  message: CompactMessage;
+  offset: number;
+  length: number;
+}
+
+export interface LocatedParseResult {
+  messages: LocatedMessage[];
+  endOffset: number; // Byte offset just past the last fully consumed line
+}
+
+export type SearchMode = 'smart' | 'exact' | 'regex';
+
+export interface ConversationSearchOptions {
+  includeThinking?: boolean; // Also match against (and return) assistant thinking blocks
+  includeThread?: boolean; // Attach the parent prompt and direct replies to each result
+  mode?: SearchMode; // smart (ranked, query syntax) or a literal exact/regex scan
+  scanFrom?: number; // exact/regex: where in the scan to start - a cursor resumes one here
+}
+
+// Lets the caller of a scan over session files follow its progress and stop it early
+export interface ScanOptions {
+  signal?: AbortSignal; // Aborting stops the scan before the next file (or line) is read
+  onProgress?: (scanned: number, total: number) => void; // Files read so far / files to read
+}
+
+// Where an exact or regex query matched, as character offsets into one part of the message
+export interface TextMatch {
+  field: 'content' | 'result' | 'thinking';
+  resultIndex?: number; // Which toolResults entry, for field "result"
+  start: number;
+  end: number;
+}
+
+export interface ThreadNode {
+  message: CompactMessage;
+  parent?: ThreadNode;
+  children: ThreadNode[];
+}
+
+// One session rebuilt from parentUuid links
+export interface ConversationThread {
+  sessionId: string;
+  roots: ThreadNode[]; // Main conversation start(s)
+  sidechains: ThreadNode[]; // Task subagent conversations
+  branchPoints: string[]; // uuids with several main-line replies (edits/retries)
+  nodes: Map<string, ThreadNode>;
 }
 
 export interface SearchResult {
   messages: CompactMessage[];
-  totalResults: number;
+  totalResults: number; // Every match in range; exact/regex scans count only what they read
   searchQuery: string;
   executionTime: number;
+  scanPositions?: number[]; // exact/regex: where in the scan each message was found
 }
 
 export interface FileContext {
@@ -86,6 +192,62 @@ export interface ToolPattern {
   intelligentInsights?: string[];
 }
 
+export interface TranscriptOptions {
+  offset?: number;
+  limit?: number;
+  anchorUuid?: string; // Start the page at this message instead of at offset
+  roles?: ('user' | 'assistant')[];
+  includeTools?: boolean; // Keep tool calls and tool output (default: conversation only)
+}
+
+export interface SessionTranscript {
+  sessionId: string;
+  projectPath: string;
+  totalMessages: number; // After role/tool filtering
+  offset: number;
+  nextOffset: number | null;
+  branchPoints: string[];
+  messages: CompactMessage[];
+}
+
+export interface TranscriptLookup {
+  transcript: SessionTranscript | null;
+  candidates: string[]; // Session ids when a prefix matched more than one session
+}
+
+export interface MessageContext {
+  sessionId: string;
+  projectPath: string;
+  anchorUuid: string;
+  messages: CompactMessage[]; // In session order, anchor included
+}
+
+// A session as list_recent_sessions finds it, newest first
+export interface RecentSession {
+  session_id: string;
+  project_path: string;
+  project_dir: string;
+  repo_path: string;
+  project_name: string;
+  message_count: number;
+  duration_minutes: number;
+  end_time?: string;
+  start_time?: string;
+  tools_used: string[];
+  assistant_count: number;
+  error_count: number;
+  session_quality: string;
+  accomplishments: string[];
+}
+
+export interface SessionListing {
+  sessionId: string;
+  projectPath: string;
+  repoPath: string;
+  messageCount: number;
+  lastActivity: string; // Session file mtime
+}
+
 export interface ConversationSession {
   sessionId: string;
   projectPath: string;
@@ -110,3 +272,211 @@ export interface PlanSearchResult {
   searchQuery: string;
   plans: PlanResult[];
 }
+
+// Tool output - the JSON each tool returns as structuredContent and prints after its header line
+
+// How a tool prints its result: pretty-printed JSON, readable markdown, or JSON on one line.
+// structuredContent is the same JSON whichever is chosen.
+export type OutputFormat = 'json' | 'markdown' | 'compact';
+
+export type MessageContextInfo = NonNullable<CompactMessage['context']>;
+
+// Present when the response was packed to fit max_tokens and something had to give
+export interface BudgetOutput {
+  max_tokens: number;
+  omitted: number; // Results left out of this page
+  shortened: number; // Fields cut short
+  hint: string; // How to get what was left out
+}
+
+export interface ToolResultOutput {
+  tool: string | null;
+  error: boolean;
+  output: string;
+}
+
+export interface BriefMessageOutput {
+  type: string;
+  ts: string;
+  content: string;
+}
+
+export interface MatchOutput {
+  in: string; // content, thinking or results[n]
+  at: [start: number, end: number];
+  text: string; // Snippet with the match in **bold**
+}
+
+export interface SearchHitOutput {
+  uuid: string;
+  session: string;
+  type: string;
+  ts: string;
+  content: string;
+  project: string | null;
+  repo: string | null; // Main repository when project is one of its worktrees
+  score: number | null;
+  ctx: MessageContextInfo | null;
+  results: ToolResultOutput[] | null;
+  thinking: string | null;
+  thread: { parent: BriefMessageOutput | null; replies: BriefMessageOutput[] } | null;
+  matches: MatchOutput[] | null;
+}
+
+export interface SearchConversationsOutput {
+  total?: number; // Every match in range, over all pages - not known for exact/regex scans
+  results: SearchHitOutput[];
+  next_cursor?: string;
+  budget?: BudgetOutput;
+}
+
+export interface SimilarQueriesOutput {
+  similar: {
+    question: string;
+    answer: string | null;
+    ts: string;
+    project: string | null;
+    score: number | null;
+    ctx: MessageContextInfo | null;
+  }[];
+  next_cursor?: string;
+  budget?: BudgetOutput;
+}
+
+export interface FileContextOutput {
+  filepath: string;
+  operations: {
+    type: string;
+    ts: string;
+    changes: string[];
+    content: string | null;
+    ctx: MessageContextInfo | null;
+  }[];
+  next_cursor?: string;
+  budget?: BudgetOutput;
+}
+
+export interface ErrorSolutionsOutput {
+  error_pattern: string;
+  solutions: {
+    pattern: string;
+    frequency: number;
+    fixes: { content: string; code: string[] | null; files: string[] | null }[];
+    ctx: MessageContextInfo | null;
+  }[];
+  next_cursor?: string;
+  budget?: BudgetOutput;
+}
+
+export interface ToolPatternsOutput {
+  tool: string;
+  patterns: {
+    name: string;
+    uses: number;
+    workflow: string | null;
+    practice: string | null;
+    example: string | null;
+    ctx: MessageContextInfo | null;
+  }[];
+  next_cursor?: string;
+  budget?: BudgetOutput;
+}
+
+export interface SessionOutput {
+  id: string | null;
+  ts: string;
+  duration: number; // Minutes
+  messages: number;
+  project: string | null;
+  repo: string | null;
+  tools: string[] | null;
+  accomplishments: string[] | null;
+}
+
+export interface RecentSessionsOutput {
+  sessions: SessionOutput[];
+  next_cursor?: string;
+  budget?: BudgetOutput;
+}
+
+export interface CompactSummaryOutput {
+  session: {
+    id: string | null;
+    ts: string;
+    duration: number;
+    messages: number;
+    project: string | null;
+    tools: string[] | null;
+    files: string[] | null;
+    accomplishments: string[] | null;
+    decisions: string[] | null;
+  } | null;
+  budget?: BudgetOutput;
+}
+
+export interface TranscriptMessageOutput {
+  uuid: string;
+  anchor?: boolean; // The message get_message_context was asked about
+  type: string;
+  ts: string;
+  content: string;
+  sidechain?: boolean;
+  results?: ToolResultOutput[];
+}
+
+// A session that wasn't found (or was ambiguous) has session: null and the candidate ids
+export interface SessionTranscriptOutput {
+  session: string | null;
+  candidates?: string[];
+  project?: string;
+  total?: number;
+  offset?: number;
+  next_offset?: number | null;
+  branch_points?: string[] | null;
+  messages?: TranscriptMessageOutput[];
+  next_cursor?: string;
+  budget?: BudgetOutput;
+}
+
+export interface MessageContextOutput {
+  session?: string;
+  project?: string;
+  messages: TranscriptMessageOutput[];
+  budget?: BudgetOutput;
+}
+
+export interface UsageGroupOutput {
+  key: string;
+  responses: number;
+  input: number;
+  output: number;
+  cache_write: number;
+  cache_read: number;
+  total: number;
+  cost_usd: number;
+}
+
+export interface UsageStatsOutput {
+  totals: UsageGroupOutput;
+  groups: UsageGroupOutput[];
+  more_groups?: number;
+  prices: string;
+  unpriced_models?: string[];
+  next_cursor?: string;
+  budget?: BudgetOutput;
+}
+
+export interface PlanSearchOutput {
+  plans: {
+    name: string;
+    ts: string;
+    title: string | null;
+    goal: string | null;
+    key_insight: string | null;
+    sections: string[];
+    files: string[];
+    score: number;
+  }[];
+  next_cursor?: string;
+  budget?: BudgetOutput;
+}
@@ -1,5 +1,22 @@
 import { HistorySearchEngine } from './search.js';
-import { SearchResult, FileContext, ErrorSolution, CompactMessage, PlanResult } from './types.js';
+import { HistoryIndex } from './history-index.js';
+import {
+  SearchResult,
+  FileContext,
+  ErrorSolution,
+  CompactMessage,
+  PlanResult,
+  ConversationSearchOptions,
+  TranscriptOptions,
+  TranscriptLookup,
+  MessageContext,
+  UsageGroupBy,
+  UsageReport,
+  SessionListing,
+  RecentSession,
+  ToolPattern,
+  ScanOptions,
+} from './types.js';
 import {
   detectClaudeDesktop,
   getClaudeDesktopStoragePath,
@@ -25,8 +42,8 @@ export class UniversalHistorySearchEngine {
   private sqlite3: any = null;
   private enhancedMode: boolean = false;
 
-  constructor() {
-    this.claudeCodeEngine = new HistorySearchEngine();
+  constructor(index?: HistoryIndex) {
+    this.claudeCodeEngine = new HistorySearchEngine(index);
     this.detectLevelDB();
   }
 
@@ -70,7 +87,8 @@ export class UniversalHistorySearchEngine {
     query: string,
     project?: string,
     timeframe?: string,
-    limit?: number
+    limit?: number,
+    options: ConversationSearchOptions = {}
   ): Promise<UniversalSearchResult> {
     await this.initialize();
 
@@ -78,10 +96,13 @@ export class UniversalHistorySearchEngine {
       query,
       project,
       timeframe,
-      limit
+      limit,
+      options
     );
 
-    if (!this.claudeDesktopAvailable) {
+    // Desktop isn't indexed - an exact or regex scan couldn't resume inside it
+    const scanning = options.mode === 'exact' || options.mode === 'regex';
+    if (!this.claudeDesktopAvailable || scanning) {
       return {
         source: 'claude-code',
         results: claudeCodeResults,
@@ -89,9 +110,15 @@ export class UniversalHistorySearchEngine {
       };
     }
 
-    const desktopMessages = await this.searchClaudeDesktopConversations(query, timeframe, limit);
+    // Every Desktop match, whatever the page - the merged ranking has to be the same on each one.
+    // A finite bound, since it also ends up as an SQLite LIMIT.
+    const desktopMessages = await this.searchClaudeDesktopConversations(
+      query,
+      timeframe,
+      Number.MAX_SAFE_INTEGER
+    );
 
-    const combinedResults = this.combineSearchResults(claudeCodeResults, desktopMessages);
+    const combinedResults = this.combineSearchResults(claudeCodeResults, desktopMessages, limit);
 
     // Only mark as enhanced if we actually found Desktop data
     const hasDesktopData = desktopMessages.length > 0;
@@ -193,7 +220,6 @@ export class UniversalHistorySearchEngine {
                 content: cleanSnippet,
                 sessionId: 'claude-desktop',
                 projectPath: 'Claude Desktop',
-                relevanceScore: this.calculateDesktopRelevanceScore(cleanSnippet, query),
                 context: {
                   filesReferenced: this.extractFileReferences({ content: cleanSnippet }),
                   toolsUsed: this.extractToolUsages({ content: cleanSnippet }),
@@ -230,7 +256,6 @@ export class UniversalHistorySearchEngine {
                               content: textItem.text,
                               sessionId: 'claude-desktop-lss',
                               projectPath: 'claude-desktop-local-storage',
-                              relevanceScore: this.calculateRelevanceScore(textItem.text, query),
                               context: {
                                 filesReferenced: this.extractFileReferences({
                                   content: textItem.text,
@@ -389,7 +414,6 @@ export class UniversalHistorySearchEngine {
                         content: this.extractRelevantSnippet(content, query),
                         sessionId: 'claude-desktop-sqlite',
                         projectPath: 'claude-desktop-webstorage',
-                        relevanceScore: this.calculateRelevanceScore(content, query),
                         context: {
                           filesReferenced: this.extractFileReferences({ content }),
                           toolsUsed: this.extractToolUsages({ content }),
@@ -575,7 +599,6 @@ export class UniversalHistorySearchEngine {
               content: this.extractRelevantSnippet(content, query),
               sessionId: 'claude-desktop-session',
               projectPath: 'claude-desktop',
-              relevanceScore: this.calculateRelevanceScore(content, query),
               context: {
                 filesReferenced: [],
                 toolsUsed: [],
@@ -705,7 +728,6 @@ export class UniversalHistorySearchEngine {
               content: this.extractRelevantSnippet(content, query),
               sessionId: 'claude-desktop-local-session',
               projectPath: 'claude-desktop-local',
-              relevanceScore: this.calculateRelevanceScore(content, query),
               context: {
                 filesReferenced: [],
                 toolsUsed: [],
@@ -1000,7 +1022,6 @@ export class UniversalHistorySearchEngine {
         content: this.extractMessageContent(data),
         sessionId: data.sessionId || 'claude-desktop-session',
         projectPath: 'claude-desktop',
-        relevanceScore: this.calculateRelevanceScore(data, query),
         context: {
           filesReferenced: this.extractFileReferences(data),
           toolsUsed: this.extractToolUsages(data),
@@ -1045,7 +1066,6 @@ export class UniversalHistorySearchEngine {
         content: this.extractMessageContent(data),
         sessionId: data.sessionId || 'claude-desktop-local-session',
         projectPath: 'claude-desktop-local',
-        relevanceScore: this.calculateRelevanceScore(data, query),
         context: {
           filesReferenced: this.extractFileReferences(data),
           toolsUsed: this.extractToolUsages(data),
@@ -1092,22 +1112,21 @@ export class UniversalHistorySearchEngine {
 
   private combineSearchResults(
     claudeCodeResults: SearchResult,
-    desktopMessages: CompactMessage[]
+    desktopMessages: CompactMessage[],
+    limit?: number
   ): SearchResult {
-    const combinedMessages = [...claudeCodeResults.messages, ...desktopMessages];
-
-    combinedMessages.sort((a, b) => {
-      const aScore = a.relevanceScore || 0;
-      const bScore = b.relevanceScore || 0;
-      if (aScore !== bScore) return bScore - aScore;
-
-      const aTime = new Date(a.timestamp || 0).getTime();
-      const bTime = new Date(b.timestamp || 0).getTime();
-      return bTime - aTime;
-    });
+    // Desktop matches aren't in the index, so they follow its BM25F ranking, newest first. They
+    // join once that ranking has run out short of the limit: until then a deeper page would push
+    // them further back, so one page would show them and the next show them again.
+    const rankingDone = claudeCodeResults.messages.length < (limit ?? Infinity);
+    const desktopByTime = rankingDone
+      ? [...desktopMessages].sort(
+          (a, b) => new Date(b.timestamp || 0).getTime() - new Date(a.timestamp || 0).getTime()
+        )
+      : [];
 
     return {
-      messages: combinedMessages,
+      messages: [...claudeCodeResults.messages, ...desktopByTime],
       totalResults: claudeCodeResults.totalResults + desktopMessages.length,
       searchQuery: claudeCodeResults.searchQuery,
       executionTime: claudeCodeResults.executionTime,
@@ -1116,11 +1135,18 @@ export class UniversalHistorySearchEngine {
 
   async findFileContext(
     filepath: string,
-    limit?: number
+    limit?: number,
+    timeframe?: string,
+    scan?: ScanOptions
   ): Promise<{ source: string; results: FileContext[]; enhanced: boolean }> {
     await this.initialize();
 
-    const claudeCodeResults = await this.claudeCodeEngine.findFileContext(filepath, limit);
+    const claudeCodeResults = await this.claudeCodeEngine.findFileContext(
+      filepath,
+      limit,
+      timeframe,
+      scan
+    );
 
     if (!this.claudeDesktopAvailable) {
       return {
@@ -1130,7 +1156,7 @@ export class UniversalHistorySearchEngine {
       };
     }
 
-    const desktopMessages = await this.searchClaudeDesktopConversations(filepath, undefined, limit);
+    const desktopMessages = await this.searchClaudeDesktopConversations(filepath, timeframe, limit);
 
     const combinedResults = this.combineFileContextResults(claudeCodeResults, desktopMessages);
 
@@ -1159,11 +1185,12 @@ export class UniversalHistorySearchEngine {
 
   async findSimilarQueries(
     query: string,
-    limit?: number
+    limit?: number,
+    scan?: ScanOptions
   ): Promise<{ source: string; results: CompactMessage[]; enhanced: boolean }> {
     await this.initialize();
 
-    const claudeCodeResults = await this.claudeCodeEngine.findSimilarQueries(query, limit);
+    const claudeCodeResults = await this.claudeCodeEngine.findSimilarQueries(query, limit, scan);
 
     if (!this.claudeDesktopAvailable) {
       return {
@@ -1188,11 +1215,18 @@ export class UniversalHistorySearchEngine {
 
   async getErrorSolutions(
     errorPattern: string,
-    limit?: number
+    limit?: number,
+    timeframe?: string,
+    scan?: ScanOptions
   ): Promise<{ source: string; results: ErrorSolution[]; enhanced: boolean }> {
     await this.initialize();
 
-    const claudeCodeResults = await this.claudeCodeEngine.getErrorSolutions(errorPattern, limit);
+    const claudeCodeResults = await this.claudeCodeEngine.getErrorSolutions(
+      errorPattern,
+      limit,
+      timeframe,
+      scan
+    );
 
     if (!this.claudeDesktopAvailable) {
       return {
@@ -1204,7 +1238,7 @@ export class UniversalHistorySearchEngine {
 
     const desktopMessages = await this.searchClaudeDesktopConversations(
       errorPattern,
-      undefined,
+      timeframe,
       limit
     );
 
@@ -1262,28 +1296,6 @@ export class UniversalHistorySearchEngine {
     return JSON.stringify(data);
   }
 
-  private calculateRelevanceScore(data: any, query: string): number {
-    const content = this.extractMessageContent(data).toLowerCase();
-    const queryLower = query.toLowerCase();
-
-    let score = 0;
-
-    // Exact match bonus
-    if (content.includes(queryLower)) score += 10;
-
-    // Word matching
-    const queryWords = queryLower.split(/\s+/);
-    const matchingWords = queryWords.filter((word) => content.includes(word));
-    score += matchingWords.length * 2;
-
-    // Special bonuses for Desktop conversations
-    if (content.includes('sketchybar')) score += 5;
-    if (content.includes('analog clock')) score += 5;
-    if (content.includes('script')) score += 3;
-
-    return score;
-  }
-
   private extractFileReferences(data: any): string[] {
     const content = this.extractMessageContent(data);
     const fileRefs: string[] = [];
@@ -1401,15 +1413,25 @@ export class UniversalHistorySearchEngine {
   }
 
   // Universal methods for all tools
-  async getRecentSessions(limit?: number, project?: string): Promise<UniversalSearchResult> {
+  async getRecentSessions(
+    limit?: number,
+    project?: string,
+    timeframe?: string,
+    scan?: ScanOptions
+  ): Promise<{ source: string; results: RecentSession[]; enhanced: boolean }> {
     await this.initialize();
 
-    const claudeCodeSessions = await this.claudeCodeEngine.getRecentSessions(limit || 10);
+    const claudeCodeSessions = await this.claudeCodeEngine.getRecentSessions(
+      limit || 10,
+      timeframe,
+      project,
+      scan
+    );
 
     if (!this.claudeDesktopAvailable) {
       return {
         source: 'claude-code',
-        results: claudeCodeSessions as any,
+        results: claudeCodeSessions,
         enhanced: false,
       };
     }
@@ -1418,20 +1440,28 @@ export class UniversalHistorySearchEngine {
     // But we mark as enhanced if Desktop is available for future Desktop session support
     return {
       source: 'claude-code',
-      results: claudeCodeSessions as any,
+      results: claudeCodeSessions,
       enhanced: this.claudeDesktopAvailable,
     };
   }
 
-  async getToolPatterns(toolName?: string, limit?: number): Promise<UniversalSearchResult> {
+  async getToolPatterns(
+    toolName?: string,
+    limit?: number,
+    scan?: ScanOptions
+  ): Promise<{ source: string; results: ToolPattern[]; enhanced: boolean }> {
     await this.initialize();
 
-    const claudeCodePatterns = await this.claudeCodeEngine.getToolPatterns(toolName, limit || 12);
+    const claudeCodePatterns = await this.claudeCodeEngine.getToolPatterns(
+      toolName,
+      limit || 12,
+      scan
+    );
 
     if (!this.claudeDesktopAvailable) {
       return {
         source: 'claude-code',
-        results: claudeCodePatterns as any,
+        results: claudeCodePatterns,
         enhanced: false,
       };
     }
@@ -1440,7 +1470,7 @@ export class UniversalHistorySearchEngine {
     // But we mark as enhanced if Desktop is available for future Desktop tool analysis
     return {
       source: 'claude-code',
-      results: claudeCodePatterns as any,
+      results: claudeCodePatterns,
       enhanced: this.claudeDesktopAvailable,
     };
   }
@@ -1534,12 +1564,123 @@ export class UniversalHistorySearchEngine {
     };
   }
 
+  async getSessionTranscript(
+    sessionReference: string,
+    options: TranscriptOptions = {}
+  ): Promise<{ source: string; results: TranscriptLookup; enhanced: boolean }> {
+    // Transcripts are read straight from Claude Code's JSONL files
+    const lookup = await this.claudeCodeEngine.getSessionTranscript(sessionReference, options);
+
+    return {
+      source: 'claude-code',
+      results: lookup,
+      enhanced: false,
+    };
+  }
+
+  async getMessageContext(
+    uuid: string,
+    before?: number,
+    after?: number,
+    includeTools?: boolean
+  ): Promise<{ source: string; results: MessageContext | null; enhanced: boolean }> {
+    const context = await this.claudeCodeEngine.getMessageContext(
+      uuid,
+      before ?? 5,
+      after ?? 5,
+      includeTools || false
+    );
+
+    return {
+      source: 'claude-code',
+      results: context,
+      enhanced: false,
+    };
+  }
+
+  async getUsageStats(
+    groupBy?: UsageGroupBy,
+    project?: string,
+    timeframe?: string,
+    limit?: number
+  ): Promise<{ source: string; results: UsageReport; enhanced: boolean }> {
+    // Desktop conversations don't record per-message token usage
+    const report = await this.claudeCodeEngine.getUsageStats(
+      groupBy || 'project',
+      project,
+      timeframe,
+      limit || 20
+    );
+
+    return {
+      source: 'claude-code',
+      results: report,
+      enhanced: false,
+    };
+  }
+
   async searchPlans(
     query: string,
-    limit?: number
+    limit?: number,
+    timeframe?: string
   ): Promise<{ source: string; results: PlanResult[]; enhanced: boolean }> {
     // Plans are local to the machine, no Desktop integration needed
-    const plans = await this.claudeCodeEngine.searchPlans(query, limit || 10);
+    const plans = await this.claudeCodeEngine.searchPlans(query, limit || 10, timeframe);
+
+    return {
+      source: 'claude-code',
+      results: plans,
+      enhanced: false,
+    };
+  }
+
+  async listSessions(
+    project?: string,
+    limit?: number
+  ): Promise<{ source: string; results: SessionListing[]; enhanced: boolean }> {
+    const sessions = await this.claudeCodeEngine.listSessions(project, limit || 50);
+
+    return {
+      source: 'claude-code',
+      results: sessions,
+      enhanced: false,
+    };
+  }
+
+  async getSession(
+    sessionReference: string
+  ): Promise<{ source: string; results: TranscriptLookup; enhanced: boolean }> {
+    const lookup = await this.claudeCodeEngine.getSession(sessionReference);
+
+    return {
+      source: 'claude-code',
+      results: lookup,
+      enhanced: false,
+    };
+  }
+
+  async listProjectNames(): Promise<{ source: string; results: string[]; enhanced: boolean }> {
+    const names = await this.claudeCodeEngine.listProjectNames();
+
+    return {
+      source: 'claude-code',
+      results: names,
+      enhanced: false,
+    };
+  }
+
+  async listToolNames(): Promise<{ source: string; results: string[]; enhanced: boolean }> {
+    const names = await this.claudeCodeEngine.listToolNames();
+
+    return {
+      source: 'claude-code',
+      results: names,
+      enhanced: false,
+    };
+  }
+
+  async listPlans(): Promise<{ source: string; results: PlanResult[]; enhanced: boolean }> {
+    const plans = await this.claudeCodeEngine.listPlans();
 
     return {
       source: 'claude-code',
@@ -1548,6 +1689,18 @@ export class UniversalHistorySearchEngine {
     };
   }
 
+  async getPlan(
+    name: string
+  ): Promise<{ source: string; results: PlanResult | null; enhanced: boolean }> {
+    const plan = await this.claudeCodeEngine.getPlan(name);
+
+    return {
+      source: 'claude-code',
+      results: plan,
+      enhanced: false,
+    };
+  }
+
   private generateSessionSummary(messages: any[], focus: string): string {
     const insights = {
       messageCount: messages.length,
@@ -1701,40 +1854,6 @@ export class UniversalHistorySearchEngine {
     return cleaned.length > 15 ? cleaned : '';
   }
 
-  private calculateDesktopRelevanceScore(content: string, query: string): number {
-    let score = 0;
-    const contentLower = content.toLowerCase();
-    const queryLower = query.toLowerCase();
-
-    // Exact query match
-    if (contentLower.includes(queryLower)) {
-      score += 10;
-    }
-
-    // Word matches
-    const queryWords = queryLower.split(/\s+/);
-    const contentWords = contentLower.split(/\s+/);
-    const matchingWords = queryWords.filter((word) =>
-      contentWords.some((cWord) => cWord.includes(word))
-    );
-    score += matchingWords.length * 3;
-
-    // Desktop content gets bonus for being rare/valuable
-    score += 8;
-
-    // Extra bonus for Desktop content with exact query match
-    if (contentLower.includes(queryLower)) {
-      score += 5; // Desktop exact matches get priority
-    }
-
-    // Penalize very short or garbled content
-    if (content.length < 30) score -= 5;
-    const nonWordMatches = content.match(/[^\w\s.,!?-]/g);
-    if (nonWordMatches && nonWordMatches.length > content.length * 0.3) score -= 3;
-
-    return Math.max(0, score);
-  }
-
   private extractToolsFromMessages(messages: any[]): string[] {
     const tools = new Set<string>();
     messages.forEach((msg) => {
@@ -0,0 +1,173 @@
+// Token usage aggregation and cost estimation for get_usage_stats
+import { readFile } from 'fs/promises';
+import { TokenUsage, UsageGroup, UsageGroupBy, UsageRecord, UsageReport } from './types.js';
+import { getPriceTablePath } from './utils.js';
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+}
+
+// Keys are matched as substrings of the model id, most specific first
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'opus-4-5': { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+  'opus-4': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  'sonnet-4': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  '3-7-sonnet': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'haiku-4-5': { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+  '3-5-haiku': { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+};
+
+export interface PriceTable {
+  prices: Record<string, ModelPrice>;
+  source: string; // "built-in" or the file the overrides came from
+}
+
+// Built-in prices, overridden per model by the local price file when present
+export async function loadPriceTable(): Promise<PriceTable> {
+  const path = getPriceTablePath();
+
+  try {
+    const overrides: Record<string, Partial<ModelPrice>> = JSON.parse(
+      await readFile(path, 'utf-8')
+    );
+    const prices = { ...DEFAULT_PRICES };
+
+    for (const [model, price] of Object.entries(overrides)) {
+      const base = DEFAULT_PRICES[model] || { input: 0, output: 0, cacheWrite: 0, cacheRead: 0 };
+      prices[model] = { ...base, ...price };
+    }
+
+    return { prices, source: path };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`Ignoring unreadable price table ${path}:`, error);
+    }
+    return { prices: DEFAULT_PRICES, source: 'built-in' };
+  }
+}
+
+export function findModelPrice(model: string, table: PriceTable): ModelPrice | null {
+  const key = Object.keys(table.prices)
+    .filter((candidate) => model.includes(candidate))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return key ? table.prices[key] : null;
+}
+
+export function estimateCost(usage: TokenUsage, price: ModelPrice): number {
+  return (
+    (usage.inputTokens * price.input +
+      usage.outputTokens * price.output +
+      usage.cacheCreationTokens * price.cacheWrite +
+      usage.cacheReadTokens * price.cacheRead) /
+    1_000_000
+  );
+}
+
+// ISO 8601 week, e.g. "2026-W42"
+function isoWeek(date: Date): string {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const weekday = day.getUTCDay() || 7;
+  day.setUTCDate(day.getUTCDate() + 4 - weekday); // Thursday decides the year
+
+  const yearStart = Date.UTC(day.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((day.getTime() - yearStart) / 86_400_000 + 1) / 7);
+  return `${day.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+}
+
+function groupKey(record: UsageRecord, groupBy: UsageGroupBy): string {
+  switch (groupBy) {
+    case 'session':
+      return record.sessionId;
+    case 'project':
+      return record.project;
+    case 'repo':
+      return record.repo;
+    case 'model':
+      return record.model || 'unknown';
+    case 'day':
+      return record.timestamp.substring(0, 10);
+    case 'week':
+      return isoWeek(new Date(record.timestamp));
+  }
+}
+
+function emptyGroup(key: string): UsageGroup {
+  return {
+    key,
+    messages: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationTokens: 0,
+    cacheReadTokens: 0,
+    totalTokens: 0,
+    estimatedCost: 0,
+  };
+}
+
+function addUsage(group: UsageGroup, usage: TokenUsage, cost: number): void {
+  group.messages++;
+  group.inputTokens += usage.inputTokens;
+  group.outputTokens += usage.outputTokens;
+  group.cacheCreationTokens += usage.cacheCreationTokens;
+  group.cacheReadTokens += usage.cacheReadTokens;
+  group.totalTokens +=
+    usage.inputTokens + usage.outputTokens + usage.cacheCreationTokens + usage.cacheReadTokens;
+  group.estimatedCost += cost;
+}
+
+export function aggregateUsage(
+  records: UsageRecord[],
+  groupBy: UsageGroupBy,
+  table: PriceTable,
+  limit: number
+): UsageReport {
+  // Claude Code writes one line per content block, each repeating the API response's usage
+  const seen = new Set<string>();
+  const unique = records.filter((record) => {
+    if (!record.apiMessageId) return true;
+    if (seen.has(record.apiMessageId)) return false;
+    seen.add(record.apiMessageId);
+    return true;
+  });
+
+  const groups = new Map<string, UsageGroup>();
+  const totals = emptyGroup('total');
+  const unpricedModels = new Set<string>();
+
+  for (const record of unique) {
+    const price = record.model ? findModelPrice(record.model, table) : null;
+    if (!price && record.model) unpricedModels.add(record.model);
+    const cost = price ? estimateCost(record.usage, price) : 0;
+
+    const key = groupKey(record, groupBy);
+    let group = groups.get(key);
+    if (!group) {
+      group = emptyGroup(key);
+      groups.set(key, group);
+    }
+
+    addUsage(group, record.usage, cost);
+    addUsage(totals, record.usage, cost);
+  }
+
+  // Time buckets read best newest-first; everything else by what it cost
+  const sorted = Array.from(groups.values()).sort((a, b) =>
+    groupBy === 'day' || groupBy === 'week'
+      ? b.key.localeCompare(a.key)
+      : b.estimatedCost - a.estimatedCost || b.totalTokens - a.totalTokens
+  );
+
+  return {
+    groupBy,
+    totals,
+    groups: sorted.slice(0, limit),
+    totalGroups: sorted.length,
+    priceSource: table.source,
+    unpricedModels: Array.from(unpricedModels),
+  };
+}
@@ -1,8 +1,9 @@
-import { readdir, stat, access, readFile } from 'fs/promises';
-import { join } from 'path';
+import { readdir, stat, access, readFile, open, mkdir, writeFile } from 'fs/promises';
+import { dirname, join, resolve } from 'path';
 import { homedir } from 'os';
 import { platform } from 'os';
 import { constants } from 'fs';
+import { ToolResult } from './types.js';
 
 export function getClaudeProjectsPath(): string {
   return join(homedir(), '.claude', 'projects');
@@ -12,6 +13,15 @@ export function getClaudePlansPath(): string {
   return join(homedir(), '.claude', 'plans');
 }
 
+export function getHistorianIndexPath(): string {
+  return join(homedir(), '.claude', 'historian-index');
+}
+
+// Local price overrides for get_usage_stats (USD per million tokens, keyed by model substring)
+export function getPriceTablePath(): string {
+  return process.env.CLAUDE_HISTORIAN_PRICES || join(homedir(), '.claude', 'historian-prices.json');
+}
+
 export async function findPlanFiles(): Promise<string[]> {
   try {
     const plansPath = getClaudePlansPath();
@@ -23,14 +33,108 @@ export async function findPlanFiles(): Promise<string[]> {
   }
 }
 
+// Real paths of encoded project directories, learned from message cwds or found on disk
+const resolvedProjectPaths = new Map<string, string>();
+
+// Best known path for an encoded project directory. Exact once the directory has been resolved
+// (see resolveProjectPath) or one of its messages parsed; until then a guess that reads every
+// '-' as '/', which is wrong for names like my-app.
 export function decodeProjectPath(encodedPath: string): string {
-  // Claude encodes paths by replacing '/' with '-'
-  return encodedPath.replace(/-/g, '/');
+  return resolvedProjectPaths.get(encodedPath) || encodedPath.replace(/-/g, '/');
 }
 
 export function encodeProjectPath(path: string): string {
-  // Encode path for Claude projects directory naming
-  return path.replace(/\//g, '-');
+  // Claude names project directories after the path with every non-alphanumeric replaced by '-'
+  return path.replace(/[^a-zA-Z0-9]/g, '-');
+}
+
+// A message's cwd is the project root or somewhere below it - walk up until the encoding matches
+export function rememberProjectCwd(encodedPath: string, cwd?: string | null): string | null {
+  if (!cwd) return null;
+
+  for (let path = cwd; ; path = dirname(path)) {
+    if (encodeProjectPath(path) === encodedPath) {
+      resolvedProjectPaths.set(encodedPath, path);
+      return path;
+    }
+    if (dirname(path) === path) return null;
+  }
+}
+
+// First cwd recorded in a session file - it sits in the first few lines
+async function readSessionCwd(projectDir: string, file: string): Promise<string | null> {
+  try {
+    const handle = await open(join(getClaudeProjectsPath(), projectDir, file), 'r');
+    try {
+      const buffer = Buffer.alloc(64 * 1024);
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+      const match = buffer.toString('utf8', 0, bytesRead).match(/"cwd"\s*:\s*("(?:[^"\\]|\\.)*")/);
+      return match ? JSON.parse(match[1]) : null;
+    } finally {
+      await handle.close();
+    }
+  } catch {
+    return null;
+  }
+}
+
+// Rebuild the path one directory at a time, keeping only entries that encode to the next part
+async function findProjectPathOnDisk(encodedPath: string): Promise<string | null> {
+  const drive = encodedPath.match(/^([a-zA-Z])--/); // C:\Users\me → C--Users-me
+  const root = drive ? `${drive[1]}:\\` : '/';
+  const remaining = drive ? encodedPath.slice(3) : encodedPath.replace(/^-/, '');
+
+  const search = async (dir: string, rest: string): Promise<string | null> => {
+    let entries: string[];
+    try {
+      entries = await readdir(dir);
+    } catch {
+      return null;
+    }
+
+    for (const entry of entries) {
+      const encoded = encodeProjectPath(entry);
+      if (encoded === rest) return join(dir, entry);
+      if (rest.startsWith(`${encoded}-`)) {
+        const found = await search(join(dir, entry), rest.slice(encoded.length + 1));
+        if (found) return found;
+      }
+    }
+    return null;
+  };
+
+  return remaining ? search(root, remaining) : null;
+}
+
+// Recover the real path behind an encoded project directory: from the cwd its sessions recorded,
+// else by matching it against the filesystem, else the lossy guess. Cached for the process.
+export async function resolveProjectPath(encodedPath: string): Promise<string> {
+  const cached = resolvedProjectPaths.get(encodedPath);
+  if (cached) return cached;
+
+  for (const file of (await findJsonlFiles(encodedPath)).slice(0, 3)) {
+    const resolved = rememberProjectCwd(encodedPath, await readSessionCwd(encodedPath, file));
+    if (resolved) return resolved;
+  }
+
+  const onDisk = await findProjectPathOnDisk(encodedPath);
+  if (onDisk) {
+    resolvedProjectPaths.set(encodedPath, onDisk);
+    return onDisk;
+  }
+
+  return decodeProjectPath(encodedPath);
+}
+
+// Project filters match the real path (e.g. "my-app") as well as the encoded directory name.
+// Naming the repository matches every worktree of it too.
+export function matchesProjectFilter(encodedPath: string, filter?: string): boolean {
+  if (!filter) return true;
+  return (
+    encodedPath.includes(filter) ||
+    decodeProjectPath(encodedPath).includes(filter) ||
+    getRepoRoot(encodedPath).includes(filter)
+  );
 }
 
 export async function findProjectDirectories(): Promise<string[]> {
@@ -103,341 +207,163 @@ export function extractContentFromMessage(message: any): string {
   return '';
 }
 
-/**
- * Check if a tech term appears in content with normal casing
- * Allows: "react", "React", "REACT" (lowercase, uppercase, title case)
- * Rejects: "ReAct", "rEact" (mixed internal capitalization = different term)
- */
-function matchesTechTerm(content: string, term: string): boolean {
-  const words = content.split(/[\s.,;:!?()\[\]{}'"<>]+/);
-  const termLower = term.toLowerCase();
-
-  for (const word of words) {
-    const cleanWord = word.replace(/[^\w-]/g, '');
-    if (!cleanWord) continue;
-
-    if (cleanWord.toLowerCase() === termLower) {
-      // Check casing pattern - allow normal variations, reject mixed internal caps
-      const isNormalCase =
-        cleanWord === cleanWord.toLowerCase() || // "react"
-        cleanWord === cleanWord.toUpperCase() || // "REACT"
-        cleanWord === cleanWord.charAt(0).toUpperCase() + cleanWord.slice(1).toLowerCase(); // "React"
-
-      if (isNormalCase) {
-        return true;
-      }
-      // Mixed case like "ReAct" - skip this word, might find normal version elsewhere
-    }
-  }
-  return false;
-}
-
-export function calculateRelevanceScore(message: any, query: string, projectPath?: string): number {
-  let score = 0;
-  const content = extractContentFromMessage(message.message || {});
-  const lowerQuery = query.toLowerCase();
-  const lowerContent = content.toLowerCase();
-
-  // Identify core technical terms - specific tech names that MUST match for relevance
-  // These are often the most important words in a query (frameworks, tools, protocols)
-  const coreTechPatterns =
-    /^(webpack|docker|react|vue|angular|node|npm|yarn|typescript|python|rust|go|java|kubernetes|aws|gcp|azure|postgres|mysql|redis|mongodb|graphql|rest|grpc|oauth|jwt|git|github|gitlab|jenkins|nginx|apache|eslint|prettier|babel|vite|rollup|esbuild|jest|mocha|cypress|playwright|nextjs|nuxt|svelte|tailwind|sass|less|vitest|pnpm|turborepo|prisma|drizzle|sequelize|sqlite|leveldb|indexeddb)$/i;
-  // Generic terms that should NOT become core terms even if 5+ chars
-  const genericTerms = new Set([
-    // Action words
-    'config',
-    'configuration',
-    'setup',
-    'install',
-    'build',
-    'deploy',
-    'test',
-    'run',
-    'start',
-    'create',
-    'update',
-    'fix',
-    'add',
-    'remove',
-    'change',
-    'optimize',
-    'optimization',
-    'improve',
-    'use',
-    'using',
-    'with',
-    'for',
-    'the',
-    'and',
-    'make',
-    'write',
-    'read',
-    'delete',
-    'check',
-    // Testing-related words (appear in many contexts: A/B testing, user testing, etc.)
-    'testing',
-    'tests',
-    'mocks',
-    'mocking',
-    'mock',
-    'stubs',
-    'stubbing',
-    'specs',
-    'coverage',
-    // Design/architecture terms (appear across many domains)
-    'design',
-    'designs',
-    'designing',
-    'responsive',
-    'architecture',
-    'pattern',
-    'patterns',
-    // Performance/optimization terms
-    'caching',
-    'cache',
-    'rendering',
-    'render',
-    'bundle',
-    'bundling',
-    'performance',
-    // Process/strategy terms
-    'strategy',
-    'strategies',
-    'approach',
-    'implementation',
-    'solution',
-    'solutions',
-    'feature',
-    'features',
-    'system',
-    'systems',
-    'process',
-    'processing',
-    'handler',
-    'handling',
-    'manager',
-    'management',
-    // Common nouns that appear in many contexts
-    'files',
-    'file',
-    'folder',
-    'directory',
-    'path',
-    'code',
-    'data',
-    'error',
-    'errors',
-    'function',
-    'functions',
-    'class',
-    'classes',
-    'method',
-    'methods',
-    'variable',
-    'variables',
-    'component',
-    'components',
-    'module',
-    'modules',
-    'package',
-    'packages',
-    'library',
-    'libraries',
-    // Format/display words
-    'format',
-    'formatting',
-    'style',
-    'styles',
-    'layout',
-    'display',
-    'show',
-    'hide',
-    'visible',
-    'rules',
-    'rule',
-    'options',
-    'option',
-    'settings',
-    'setting',
-    'params',
-    'parameters',
-    // Generic technical words
-    'server',
-    'client',
-    'request',
-    'response',
-    'async',
-    'await',
-    'promise',
-    'callback',
-    'import',
-    'export',
-    'require',
-    'include',
-    'define',
-    'declare',
-    'return',
-    'output',
-    'input',
-    // Database/schema generic terms (appear in many contexts)
-    'database',
-    'schema',
-    'schemas',
-    'models',
-    'model',
-    'table',
-    'tables',
-    'query',
-    'queries',
-    'migration',
-    'migrations',
-    'index',
-    'indexes',
-    'field',
-    'fields',
-    'column',
-    'columns',
-    // Deployment/infra generic terms
-    'deployment',
-    'container',
-    'containers',
-    'service',
-    'services',
-    'cluster',
-    'clusters',
-    'instance',
-    'instances',
-    'environment',
-    'environments',
-    'manifest',
-    'resource',
-    'resources',
-    // Common programming terms
-    'interface',
-    'interfaces',
-    'types',
-    'typing',
-    'object',
-    'objects',
-    'array',
-    'arrays',
-    'string',
-    'strings',
-    'number',
-    'numbers',
-    'boolean',
-    'value',
-    'values',
-    'property',
-    'properties',
-  ]);
-
-  const queryWords = lowerQuery.split(/\s+/).filter((w) => w.length > 2);
-
-  // STRICT core terms: Only tech names from coreTechPatterns are "must-match"
-  // These are specific frameworks/tools that MUST appear for relevance
-  const strictCoreTerms = queryWords.filter((w) => coreTechPatterns.test(w));
-
-  // Supporting terms: Other 5+ char words boost score but don't require match
-  const supportingTerms = queryWords.filter(
-    (w) => !coreTechPatterns.test(w) && !genericTerms.has(w) && w.length >= 5
-  );
+export function extractThinkingFromMessage(message: any): string {
+  if (!Array.isArray(message.content)) return '';
 
-  // Check if STRICT core terms match (tech names like vue, rust, kubernetes)
-  let strictCoreMatches = 0;
-  for (const term of strictCoreTerms) {
-    if (matchesTechTerm(content, term)) {
-      strictCoreMatches++;
-      score += 10; // High weight for tech name matches
-    }
-  }
-
-  // If query has strict tech terms but NONE match, reject completely
-  if (strictCoreTerms.length > 0 && strictCoreMatches === 0) {
-    return 0; // No relevance if specific tech terms don't match
-  }
-
-  // Supporting terms boost score but don't reject if missing
-  for (const term of supportingTerms) {
-    if (matchesTechTerm(content, term)) {
-      score += 3; // Moderate boost for supporting term matches
-    }
-  }
+  return message.content
+    .filter((item: any) => item && item.type === 'thinking' && item.thinking)
+    .map((item: any) => item.thinking)
+    .join('\n\n')
+    .trim();
+}
 
-  // Individual word scoring for remaining words
-  let wordMatchCount = strictCoreMatches;
-  for (const word of queryWords) {
-    if (
-      !strictCoreTerms.includes(word) &&
-      !supportingTerms.includes(word) &&
-      matchesTechTerm(content, word)
-    ) {
-      wordMatchCount++;
-      score += 2; // +2 per matching word
-    }
-  }
+export function extractToolResults(message: any, toolNames?: Map<string, string>): ToolResult[] {
+  if (!Array.isArray(message.content)) return [];
+
+  return message.content
+    .filter((item: any) => item && item.type === 'tool_result')
+    .map((item: any) => {
+      // Content is either a plain string or an array of blocks (text, images, ...)
+      const text =
+        typeof item.content === 'string'
+          ? item.content
+          : Array.isArray(item.content)
+            ? item.content
+                .filter((block: any) => block && block.type === 'text')
+                .map((block: any) => block.text)
+                .join('\n')
+            : '';
+
+      const result: ToolResult = {
+        toolUseId: item.tool_use_id,
+        content: text.trim(),
+      };
+      const toolName = toolNames?.get(item.tool_use_id);
+      if (toolName) result.toolName = toolName;
+      if (item.is_error) result.isError = true;
+      return result;
+    })
+    .filter((result: ToolResult) => result.content.length > 0);
+}
 
-  // Bonus for exact phrase match (all words in order)
-  if (lowerContent.includes(lowerQuery)) {
-    score += 5; // Bonus for exact phrase, but not required
-  }
+export function formatTimestamp(timestamp: string): string {
+  return new Date(timestamp).toISOString();
+}
 
-  // Bonus for matching majority of query words
-  if (queryWords.length > 0 && wordMatchCount >= Math.ceil(queryWords.length * 0.6)) {
-    score += 4; // 60%+ word match bonus
+export class TimeframeError extends Error {
+  constructor(timeframe: string, reason: string) {
+    super(
+      `Invalid timeframe "${timeframe}": ${reason}. Use today, yesterday, week, month, a duration ` +
+        '(6h, 3d, 2w), a date (2026-03-01), a range (2026-03-01..2026-03-15) or since_session:<id>'
+    );
+    this.name = 'TimeframeError';
   }
+}
 
-  // Tool usage bonus
-  if (message.type === 'tool_use' || message.type === 'tool_result') {
-    score += 5;
-  }
+// Start inclusive, end exclusive; either side may be open
+export interface TimeRange {
+  start?: Date;
+  end?: Date;
+}
 
-  // File reference bonus
-  if (content.includes('src/') || content.includes('.ts') || content.includes('.js')) {
-    score += 3;
+const DURATION_UNITS_MS: Record<string, number> = {
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 7 * 86_400_000,
+};
+
+// A date alone covers that whole (local) day; a date with a time is an exact instant
+function parseTimeframeBound(value: string, timeframe: string): TimeRange {
+  const day = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (day) {
+    const start = new Date(Number(day[1]), Number(day[2]) - 1, Number(day[3]));
+    if (start.getDate() !== Number(day[3]))
+      throw new TimeframeError(timeframe, `no such date ${value}`);
+
+    const end = new Date(start);
+    end.setDate(end.getDate() + 1);
+    return { start, end };
   }
 
-  // Project path matching bonus
-  if (projectPath && message.cwd && message.cwd.includes(projectPath)) {
-    score += 5;
+  const instant = /^\d{4}-\d{2}-\d{2}T/.test(value) ? new Date(value) : null;
+  if (!instant || isNaN(instant.getTime())) {
+    throw new TimeframeError(timeframe, `"${value}" is not an ISO date`);
   }
-
-  return score;
-}
-
-export function formatTimestamp(timestamp: string): string {
-  return new Date(timestamp).toISOString();
+  return { start: instant, end: instant };
 }
 
-export function getTimeRangeFilter(timeframe?: string): (timestamp: string) => boolean {
-  if (!timeframe) return () => true;
-
-  const now = new Date();
-  const cutoff = new Date();
+export function parseTimeframe(
+  timeframe: string,
+  sessionStart?: (sessionId: string) => string | undefined,
+  now: Date = new Date()
+): TimeRange {
+  const value = timeframe.trim();
+  const cutoff = new Date(now);
 
-  switch (timeframe.toLowerCase()) {
+  switch (value.toLowerCase()) {
     case 'today':
       cutoff.setHours(0, 0, 0, 0);
-      break;
+      return { start: cutoff };
     case 'yesterday':
       cutoff.setDate(now.getDate() - 1);
       cutoff.setHours(0, 0, 0, 0);
-      break;
+      return { start: cutoff };
     case 'week':
     case 'last-week':
       cutoff.setDate(now.getDate() - 7);
-      break;
+      return { start: cutoff };
     case 'month':
     case 'last-month':
       cutoff.setMonth(now.getMonth() - 1);
-      break;
-    default:
-      return () => true;
+      return { start: cutoff };
   }
 
+  const duration = value.match(/^(\d+)\s*([hdw])$/i);
+  if (duration) {
+    const span = Number(duration[1]) * DURATION_UNITS_MS[duration[2].toLowerCase()];
+    return { start: new Date(now.getTime() - span) };
+  }
+
+  if (value.toLowerCase().startsWith('since_session:')) {
+    const sessionId = value.slice('since_session:'.length).trim();
+    const started = sessionId ? sessionStart?.(sessionId) : undefined;
+    if (!started) throw new TimeframeError(timeframe, `no single session matches "${sessionId}"`);
+    return { start: new Date(started) };
+  }
+
+  if (value.includes('..')) {
+    const [from, to] = value.split('..').map((part) => part.trim());
+    if (!from && !to) throw new TimeframeError(timeframe, 'a range needs at least one end');
+
+    // Both ends are inclusive: ..2026-03-15 runs to the end of the 15th
+    const start = from ? parseTimeframeBound(from, timeframe).start : undefined;
+    const end = to ? parseTimeframeBound(to, timeframe).end : undefined;
+    if (start && end && start >= end) {
+      throw new TimeframeError(timeframe, 'the range ends before it starts');
+    }
+    return { start, end };
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}/.test(value)) {
+    const bound = parseTimeframeBound(value, timeframe);
+    return value.includes('T') ? { start: bound.start } : bound;
+  }
+
+  throw new TimeframeError(timeframe, 'unrecognised format');
+}
+
+// Invalid timeframes throw TimeframeError rather than quietly matching everything
+export function getTimeRangeFilter(
+  timeframe?: string,
+  sessionStart?: (sessionId: string) => string | undefined
+): (timestamp: string) => boolean {
+  if (!timeframe) return () => true;
+
+  const { start, end } = parseTimeframe(timeframe, sessionStart);
+
   return (timestamp: string) => {
     const messageDate = new Date(timestamp);
-    return messageDate >= cutoff;
+    return (!start || messageDate >= start) && (!end || messageDate < end);
   };
 }
 
@@ -494,9 +420,138 @@ export async function getClaudeDesktopIndexedDBPath(): Promise<string | null> {
 }
 
 // Git worktree detection and parent project discovery
+
+// Main repository root per encoded project directory - the project's own path unless it is a
+// worktree (or a subdirectory) of another checkout
+const repoRoots = new Map<string, string>();
+// Worktree path → main repository root, remembered on disk so deleted worktrees still group
+let knownWorktrees: Map<string, string> | null = null;
+
+function getWorktreeMapPath(): string {
+  return join(getHistorianIndexPath(), 'worktrees.json');
+}
+
+async function loadKnownWorktrees(): Promise<Map<string, string>> {
+  if (!knownWorktrees) {
+    try {
+      knownWorktrees = new Map(
+        Object.entries(JSON.parse(await readFile(getWorktreeMapPath(), 'utf-8')))
+      );
+    } catch {
+      knownWorktrees = new Map();
+    }
+  }
+  return knownWorktrees;
+}
+
+async function saveKnownWorktrees(known: Map<string, string>): Promise<void> {
+  try {
+    await mkdir(getHistorianIndexPath(), { recursive: true });
+    await writeFile(getWorktreeMapPath(), JSON.stringify(Object.fromEntries(known), null, 2));
+  } catch (error) {
+    console.error('Error saving worktree map:', error);
+  }
+}
+
+// A worktree's .git file reads "gitdir: /path/to/repo/.git/worktrees/name" → /path/to/repo
+async function readWorktreeGitFile(gitFile: string): Promise<string | null> {
+  const match = (await readFile(gitFile, 'utf-8')).match(/gitdir:\s*(.+)/);
+  if (!match) return null;
+
+  const gitdir = resolve(dirname(gitFile), match[1].trim());
+  const root = gitdir.replace(/[\\/]\.git[\\/]worktrees[\\/][^\\/]+[\\/]?$/, '');
+  return root !== gitdir ? root : null;
+}
+
+// The repository git itself would use: the nearest ancestor with a .git entry. Home and the
+// filesystem root don't count - a dotfiles repo there would swallow every project.
+async function findRepoRoot(path: string): Promise<string | null> {
+  for (let dir = path; dir !== dirname(dir) && dir !== homedir(); dir = dirname(dir)) {
+    try {
+      const stats = await stat(join(dir, '.git'));
+      if (stats.isDirectory()) return dir;
+      if (stats.isFile()) return (await readWorktreeGitFile(join(dir, '.git'))) || dir;
+    } catch {
+      // No .git here - keep walking up
+    }
+  }
+  return null;
+}
+
+// A main checkout's .git/worktrees still lists worktrees whose directories are gone (until pruned)
+async function recordWorktrees(root: string, known: Map<string, string>): Promise<boolean> {
+  const metadataDir = join(root, '.git', 'worktrees');
+  let changed = false;
+
+  try {
+    for (const name of await readdir(metadataDir)) {
+      try {
+        const gitdir = (await readFile(join(metadataDir, name, 'gitdir'), 'utf-8')).trim();
+        const worktreePath = dirname(resolve(join(metadataDir, name), gitdir));
+        if (known.get(worktreePath) !== root) {
+          known.set(worktreePath, root);
+          changed = true;
+        }
+      } catch {
+        // Half-written or locked worktree metadata
+      }
+    }
+  } catch {
+    // No worktrees
+  }
+
+  return changed;
+}
+
+// Work out which repository each project directory belongs to. Checkouts that still exist are
+// asked directly; deleted worktrees fall back to what was learned while they existed.
+export async function resolveRepoRoots(projectDirs: string[]): Promise<void> {
+  const known = await loadKnownWorktrees();
+  const missing: [string, string][] = [];
+  const roots = new Set<string>();
+  let changed = false;
+
+  for (const projectDir of projectDirs) {
+    if (repoRoots.has(projectDir)) continue;
+
+    const path = await resolveProjectPath(projectDir);
+    const exists = await stat(path).then(
+      () => true,
+      () => false
+    );
+    if (!exists) {
+      missing.push([projectDir, path]);
+      continue;
+    }
+
+    const root = (await findRepoRoot(path)) || path;
+    repoRoots.set(projectDir, root);
+    roots.add(root);
+    if (root !== path && known.get(path) !== root) {
+      known.set(path, root);
+      changed = true;
+    }
+  }
+
+  for (const root of roots) {
+    if (await recordWorktrees(root, known)) changed = true;
+  }
+
+  for (const [projectDir, path] of missing) {
+    repoRoots.set(projectDir, known.get(path) || (await findRepoRoot(path)) || path);
+  }
+
+  if (changed) await saveKnownWorktrees(known);
+}
+
+// Repository root for a project directory once resolveRepoRoots has seen it, else its own path
+export function getRepoRoot(encodedPath: string): string {
+  return repoRoots.get(encodedPath) || decodeProjectPath(encodedPath);
+}
+
 export async function isGitWorktree(projectPath: string): Promise<boolean> {
   try {
-    const decodedPath = decodeProjectPath(projectPath);
+    const decodedPath = await resolveProjectPath(projectPath);
     const gitPath = join(decodedPath, '.git');
 
     // Check if .git exists and is a file (not a directory)
@@ -509,42 +564,30 @@ export async function isGitWorktree(projectPath: string): Promise<boolean> {
 
 export async function getParentProjectFromWorktree(projectPath: string): Promise<string | null> {
   try {
-    const decodedPath = decodeProjectPath(projectPath);
-    const gitFilePath = join(decodedPath, '.git');
-
-    // Read the .git file which contains: gitdir: /path/to/parent/.git/worktrees/name
-    const gitFileContent = await readFile(gitFilePath, 'utf-8');
-    const gitdirMatch = gitFileContent.match(/gitdir:\s*(.+)/);
-
-    if (!gitdirMatch) return null;
-
-    const gitdir = gitdirMatch[1].trim();
-    // Extract parent path: /path/to/parent/.git/worktrees/name → /path/to/parent
-    const parentPath = gitdir.replace(/\.git\/worktrees\/.+$/, '').trim();
-
-    if (!parentPath) return null;
+    const decodedPath = await resolveProjectPath(projectPath);
+    const parentPath = await readWorktreeGitFile(join(decodedPath, '.git'));
 
     // Encode the parent path to match Claude's project directory naming
-    return encodeProjectPath(parentPath);
+    return parentPath ? encodeProjectPath(parentPath) : null;
   } catch {
     return null;
   }
 }
 
+// Put each repository's main project directly after the first of its worktrees, so callers that
+// only look at the most recent directories still see the whole repository's history
 export async function expandWorktreeProjects(projectDirs: string[]): Promise<string[]> {
-  // TEMPORARILY DISABLED FOR TESTING
-  return projectDirs;
+  await resolveRepoRoots(projectDirs);
 
-  // const expanded = new Set<string>(projectDirs);
+  const expanded = new Set<string>();
+  for (const projectDir of projectDirs) {
+    expanded.add(projectDir);
 
-  // for (const projectDir of projectDirs) {
-  //   if (await isGitWorktree(projectDir)) {
-  //     const parentProject = await getParentProjectFromWorktree(projectDir);
-  //     if (parentProject && parentProject !== projectDir) {
-  //       expanded.add(parentProject);
-  //     }
-  //   }
-  // }
+    const parentProject = encodeProjectPath(getRepoRoot(projectDir));
+    if (parentProject !== projectDir && projectDirs.includes(parentProject)) {
+      expanded.add(parentProject);
+    }
+  }
 
-  // return Array.from(expanded);
+  return Array.from(expanded);
 }
@@ -0,0 +1,126 @@
+// Checks tool arguments against the tool's inputSchema before any work is done. Covers the parts
+// of JSON Schema the tool definitions use: type, enum, minimum/maximum, minLength, items,
+// required, and not/required for arguments that can't be combined.
+
+export interface JsonSchema {
+  type?: string;
+  description?: string;
+  default?: unknown;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  not?: { required: string[] };
+}
+
+export class ArgumentError extends Error {
+  constructor(tool: string, message: string) {
+    super(`Invalid arguments for ${tool}: ${message}`);
+    this.name = 'ArgumentError';
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (typeof value === 'object') return 'an object';
+  return String(value);
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    default:
+      return true;
+  }
+}
+
+// Returns what is wrong with value, or null when it fits the schema
+function checkValue(value: unknown, schema: JsonSchema, path: string): string | null {
+  if (schema.type && !matchesType(value, schema.type)) {
+    const article = /^[aeiou]/.test(schema.type) ? 'an' : 'a';
+    return `"${path}" must be ${article} ${schema.type}, got ${describe(value)}`;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    return `"${path}" must be one of ${schema.enum.join(', ')}, got ${describe(value)}`;
+  }
+
+  if (typeof value === 'number') {
+    const { minimum, maximum } = schema;
+    if ((minimum !== undefined && value < minimum) || (maximum !== undefined && value > maximum)) {
+      const range =
+        minimum !== undefined && maximum !== undefined
+          ? `from ${minimum} to ${maximum}`
+          : minimum !== undefined
+            ? `at least ${minimum}`
+            : `at most ${maximum}`;
+      return `"${path}" must be ${range}, got ${value}`;
+    }
+  }
+
+  if (typeof value === 'string' && schema.minLength && value.trim().length < schema.minLength) {
+    return `"${path}" must not be empty`;
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    for (let i = 0; i < value.length; i++) {
+      const problem = checkValue(value[i], schema.items, `${path}[${i}]`);
+      if (problem) return problem;
+    }
+  }
+
+  return null;
+}
+
+export function validateArguments(
+  tool: string,
+  schema: JsonSchema,
+  args: Record<string, unknown> | undefined
+): void {
+  const values = args || {};
+  const properties = schema.properties || {};
+
+  for (const name of schema.required || []) {
+    if (values[name] === undefined) {
+      throw new ArgumentError(tool, `missing required argument "${name}"`);
+    }
+  }
+
+  for (const [name, value] of Object.entries(values)) {
+    const property = properties[name];
+    if (!property) {
+      const known = Object.keys(properties);
+      throw new ArgumentError(
+        tool,
+        `unknown argument "${name}"${known.length > 0 ? ` (expected ${known.join(', ')})` : ''}`
+      );
+    }
+
+    const problem = checkValue(value, property, name);
+    if (problem) throw new ArgumentError(tool, problem);
+  }
+
+  const exclusive = schema.not?.required;
+  if (exclusive && exclusive.every((name) => values[name] !== undefined)) {
+    throw new ArgumentError(
+      tool,
+      `${exclusive.map((name) => `"${name}"`).join(' and ')} can't be used together`
+    );
+  }
+}
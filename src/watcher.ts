@@ -0,0 +1,100 @@
+// Background watcher that keeps the history index warm while the server runs
+import { watch, FSWatcher } from 'fs';
+import { HistoryIndex } from './history-index.js';
+import { getClaudePlansPath, getClaudeProjectsPath } from './utils.js';
+
+const DEBOUNCE_MS = 500;
+
+export class HistoryWatcher {
+  private index: HistoryIndex;
+  private watchers: FSWatcher[] = [];
+  private pendingFiles: Set<string> = new Set();
+  private pendingPlans = false;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(index: HistoryIndex) {
+    this.index = index;
+  }
+
+  // Watch first so nothing written during the warm-up is missed, then apply changes as they land
+  async start(): Promise<void> {
+    const projectsWatcher = this.watchDirectory(getClaudeProjectsPath(), (filename) => {
+      // Sessions live exactly one level down: <encoded-project>/<session>.jsonl
+      const normalized = filename.replace(/\\/g, '/');
+      if (normalized.endsWith('.jsonl') && normalized.split('/').length === 2) {
+        this.pendingFiles.add(normalized);
+        this.schedule();
+      }
+    });
+
+    this.watchDirectory(getClaudePlansPath(), (filename) => {
+      if (filename.endsWith('.md')) {
+        this.pendingPlans = true;
+        this.schedule();
+      }
+    });
+
+    try {
+      await this.index.refresh();
+      await this.index.refreshPlans();
+    } catch (error) {
+      console.error('Initial index warm-up failed:', error);
+      return;
+    }
+
+    // Without a projects watcher every query still needs its own stat walk
+    this.index.setLive(projectsWatcher !== null);
+  }
+
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.watchers.forEach((watcher) => watcher.close());
+    this.watchers = [];
+    this.index.setLive(false);
+  }
+
+  private watchDirectory(path: string, onChange: (filename: string) => void): FSWatcher | null {
+    try {
+      const watcher = watch(path, { recursive: true, persistent: false }, (_event, filename) => {
+        if (filename) onChange(filename.toString());
+      });
+
+      watcher.on('error', (error) => {
+        // Events may have been missed - fall back to per-query refreshes
+        console.error(`Watcher error for ${path}:`, error);
+        this.index.setLive(false);
+      });
+
+      this.watchers.push(watcher);
+      return watcher;
+    } catch (error) {
+      // Directory missing (no history yet) or recursive watch unsupported
+      console.error(`Cannot watch ${path}:`, error);
+      return null;
+    }
+  }
+
+  // Claude appends to a session many times per turn - batch those into one index update
+  private schedule(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.flush();
+    }, DEBOUNCE_MS);
+  }
+
+  private async flush(): Promise<void> {
+    const files = Array.from(this.pendingFiles);
+    const plans = this.pendingPlans;
+    this.pendingFiles.clear();
+    this.pendingPlans = false;
+
+    try {
+      if (files.length > 0) await this.index.refreshFiles(files);
+      if (plans) await this.index.refreshPlans();
+    } catch (error) {
+      console.error('Background index update failed:', error);
+    }
+  }
+}
@@ -0,0 +1,69 @@
+// Run against the build: npm run build && node --test test/
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BeautifulFormatter } from '../dist/formatter.js';
+import { openPage, paginate } from '../dist/pagination.js';
+import { packToBudget, estimateTokens } from '../dist/token-budget.js';
+
+// A result made of many short lines - too big for the budget, with nothing long enough to shorten
+function message(i) {
+  return {
+    uuid: `uuid-${i}`,
+    sessionId: 'session',
+    type: 'assistant',
+    timestamp: new Date(2026, 0, 1, 0, i).toISOString(),
+    content: `result ${i}`,
+    projectPath: '/home/me/project',
+    relevanceScore: 1,
+    context: {
+      filesReferenced: Array.from({ length: 300 }, (_, f) => `src/file-${i}-${f}.ts`),
+      toolsUsed: Array.from({ length: 50 }, (_, t) => `Tool${t}`),
+    },
+  };
+}
+
+test('following next_cursor with a tiny budget reaches the end', () => {
+  const formatter = new BeautifulFormatter();
+  const messages = Array.from({ length: 5 }, (_, i) => message(i));
+  const args = { query: 'anything', limit: 5, max_tokens: 500 };
+
+  const seen = [];
+  let cursor;
+  for (let calls = 0; calls < 20; calls++) {
+    const page = openPage('search_conversations', cursor ? { ...args, cursor } : args, args.limit);
+    const { items, nextCursor } = paginate(messages, page);
+    const { structured } = formatter.formatSearchConversations(
+      { messages: items, totalResults: messages.length, searchQuery: args.query, executionTime: 0 },
+      'summary',
+      nextCursor,
+      args.max_tokens
+    );
+
+    assert.ok(structured.results.length > 0, 'every page returns at least one result');
+    seen.push(...structured.results.map((result) => result.uuid));
+    cursor = structured.next_cursor;
+    if (!cursor) break;
+  }
+
+  assert.equal(cursor, undefined, 'paging finished');
+  assert.deepEqual(
+    seen,
+    messages.map((msg) => msg.uuid)
+  );
+});
+
+test('the first result is cut down - lists included - rather than dropped', () => {
+  const structured = { results: [{ lines: Array.from({ length: 400 }, (_, i) => `line ${i}`) }] };
+  const measure = (output) => estimateTokens(JSON.stringify(output));
+  const packed = packToBudget(structured, {
+    maxTokens: 200,
+    list: 'results',
+    measure,
+    shorten: (text, maxLength) => text.substring(0, maxLength),
+  });
+
+  assert.equal(packed.structured.results.length, 1);
+  assert.equal(packed.omitted, 0);
+  assert.ok(packed.shortened > 0);
+  assert.ok(measure(packed.structured) <= 200);
+});